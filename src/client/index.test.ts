@@ -1,14 +1,65 @@
+import type { FunctionReference } from "convex/server";
 import { describe, expect, test } from "vitest";
 import {
+	type AddItemsOptions,
 	type BatchConfig,
+	type BatchConfigUpdate,
 	BatchProcessor,
+	type BatchProcessorAPI,
+	type BatchStatusResult,
+	type CircuitBreakerStatus,
+	type DeadLetter,
+	type FlushHistoryItem,
 	type GetNextBatchArgs,
 	type GetNextBatchResult,
+	type GlobalConfig,
+	type InvalidHandle,
 	type IteratorConfig,
 	type OnCompleteArgs,
+	type OnFlushCompleteArgs,
+	type OnFlushFailedArgs,
+	type PartitionListItem,
+	type PauseResult,
 	type ProcessBatchArgs,
+	type ProcessBatchResult,
+	type RebindResult,
+	type UnsettableBatchConfigField,
+	type UpdateBatchConfigResult,
 } from "./index";
 
+// Create a mock component API (function references are opaque to the client)
+function createMockComponent(): BatchProcessorAPI {
+	return {
+		lib: {
+			addItems: {} as any,
+			flushBatch: {} as any,
+			getBatchStatus: {} as any,
+			getFlushHistory: {} as any,
+			getAllBatchesForBaseId: {} as any,
+			listPartitions: {} as any,
+			pauseBatch: {} as any,
+			resumeBatch: {} as any,
+			updateBatchConfig: {} as any,
+			deleteBatch: {} as any,
+			listDeadLetters: {} as any,
+			getDeadLetter: {} as any,
+			replayDeadLetter: {} as any,
+			purgeDeadLetters: {} as any,
+			configure: {} as any,
+			getCircuitBreakerState: {} as any,
+			listInvalidHandles: {} as any,
+			rebindHandle: {} as any,
+			startIteratorJob: {} as any,
+			pauseIteratorJob: {} as any,
+			resumeIteratorJob: {} as any,
+			cancelIteratorJob: {} as any,
+			getIteratorJobStatus: {} as any,
+			listIteratorJobs: {} as any,
+			deleteIteratorJob: {} as any,
+		},
+	};
+}
+
 describe("BatchProcessor client", () => {
 	test("exports BatchProcessor class", () => {
 		expect(BatchProcessor).toBeDefined();
@@ -16,47 +67,14 @@ describe("BatchProcessor client", () => {
 	});
 
 	test("BatchProcessor constructor accepts component API without config", () => {
-		// Create a mock component API
-		const mockComponent = {
-			lib: {
-				addItems: {} as any,
-				flushBatch: {} as any,
-				getBatchStatus: {} as any,
-				getFlushHistory: {} as any,
-				getAllBatchesForBaseId: {} as any,
-				deleteBatch: {} as any,
-				startIteratorJob: {} as any,
-				pauseIteratorJob: {} as any,
-				resumeIteratorJob: {} as any,
-				cancelIteratorJob: {} as any,
-				getIteratorJobStatus: {} as any,
-				listIteratorJobs: {} as any,
-				deleteIteratorJob: {} as any,
-			},
-		};
+		const mockComponent = createMockComponent();
 
 		const processor = new BatchProcessor(mockComponent);
 		expect(processor).toBeInstanceOf(BatchProcessor);
 	});
 
 	test("BatchProcessor constructor accepts component API with config", () => {
-		const mockComponent = {
-			lib: {
-				addItems: {} as any,
-				flushBatch: {} as any,
-				getBatchStatus: {} as any,
-				getFlushHistory: {} as any,
-				getAllBatchesForBaseId: {} as any,
-				deleteBatch: {} as any,
-				startIteratorJob: {} as any,
-				pauseIteratorJob: {} as any,
-				resumeIteratorJob: {} as any,
-				cancelIteratorJob: {} as any,
-				getIteratorJobStatus: {} as any,
-				listIteratorJobs: {} as any,
-				deleteIteratorJob: {} as any,
-			},
-		};
+		const mockComponent = createMockComponent();
 
 		const processor = new BatchProcessor(mockComponent, {
 			immediateFlushThreshold: 100,
@@ -77,6 +95,280 @@ describe("type exports", () => {
 		expect(config.immediateFlushThreshold).toBe(100);
 	});
 
+	test("BatchConfig accepts maxFlushAttempts", () => {
+		const config: BatchConfig = {
+			flushIntervalMs: 30000,
+			processBatch: {} as any,
+			maxFlushAttempts: 5,
+		};
+		expect(config.maxFlushAttempts).toBe(5);
+	});
+
+	test("BatchConfig accepts retryPolicy", () => {
+		const config: BatchConfig = {
+			flushIntervalMs: 0,
+			processBatch: {} as any,
+			retryPolicy: { initialDelayMs: 1000, multiplier: 2, maxDelayMs: 60000, jitter: 0.2 },
+		};
+		expect(config.retryPolicy?.initialDelayMs).toBe(1000);
+	});
+
+	test("BatchConfig accepts maxItemsPerFlush", () => {
+		const config: BatchConfig = {
+			flushIntervalMs: 30000,
+			processBatch: {} as any,
+			maxItemsPerFlush: 500,
+		};
+		expect(config.maxItemsPerFlush).toBe(500);
+	});
+
+	test("BatchConfig accepts cumulativeFlushThreshold", () => {
+		const config: BatchConfig = {
+			flushIntervalMs: 30000,
+			processBatch: {} as any,
+			cumulativeFlushThreshold: 1000,
+		};
+		expect(config.cumulativeFlushThreshold).toBe(1000);
+	});
+
+	test("BatchConfig accepts maxBatchBytes", () => {
+		const config: BatchConfig = {
+			flushIntervalMs: 30000,
+			processBatch: {} as any,
+			maxBatchBytes: 512 * 1024,
+		};
+		expect(config.maxBatchBytes).toBe(524288);
+	});
+
+	test("BatchConfig accepts idempotency options", () => {
+		const config: BatchConfig = {
+			flushIntervalMs: 30000,
+			processBatch: {} as any,
+			itemKey: "eventId",
+			dedupeItemsByKey: true,
+			idempotencyWindowMs: 60 * 60 * 1000,
+		};
+		const options: AddItemsOptions = { idempotencyKey: "request-123" };
+		expect(config.dedupeItemsByKey).toBe(true);
+		expect(options.idempotencyKey).toBe("request-123");
+	});
+
+	test("BatchConfig accepts dedupeBy", () => {
+		const config: BatchConfig = {
+			flushIntervalMs: 5000,
+			processBatch: {} as any,
+			dedupeBy: { key: "userId", keep: "last" },
+		};
+		expect(config.dedupeBy?.key).toBe("userId");
+	});
+
+	test("BatchConfig accepts a reducer", () => {
+		const config: BatchConfig<{ page: string; views: number }> = {
+			flushIntervalMs: 60000,
+			processBatch: {} as any,
+			reduce: { groupBy: "page", fields: { views: "sum" } },
+		};
+		expect(config.reduce?.fields?.views).toBe("sum");
+	});
+
+	test("BatchConfig accepts debounce options", () => {
+		const config: BatchConfig = {
+			flushIntervalMs: 0,
+			processBatch: {} as any,
+			debounceMs: 2000,
+			maxWaitMs: 30000,
+		};
+		expect(config.debounceMs).toBe(2000);
+		expect(config.maxWaitMs).toBe(30000);
+	});
+
+	test("BatchConfig accepts flushSchedule", () => {
+		const config: BatchConfig = {
+			flushIntervalMs: 0,
+			processBatch: {} as any,
+			flushSchedule: "0 * * * *",
+		};
+		expect(config.flushSchedule).toBe("0 * * * *");
+	});
+
+	test("BatchConfig accepts eventTimeWindow", () => {
+		const config: BatchConfig<{ timestamp: number }> = {
+			flushIntervalMs: 0,
+			processBatch: {} as any,
+			eventTimeWindow: { timestampField: "timestamp", windowMs: 300000, allowedLatenessMs: 60000 },
+		};
+		const args: ProcessBatchArgs<{ timestamp: number }> = {
+			items: [{ timestamp: 1000 }],
+			window: { start: 0, end: 300000 },
+		};
+		expect(config.eventTimeWindow?.windowMs).toBe(300000);
+		expect(args.window?.end).toBe(300000);
+	});
+
+	test("BatchConfig accepts partitionBy", () => {
+		const config: BatchConfig<{ tenantId: string }> = {
+			flushIntervalMs: 30000,
+			processBatch: {} as any,
+			partitionBy: "tenantId",
+		};
+		const partition: PartitionListItem = {
+			partitionKey: "tenant-1",
+			itemCount: 42,
+			byteSize: 1024,
+			batchCount: 1,
+			flushing: false,
+			lastUpdatedAt: 1000,
+		};
+		expect(config.partitionBy).toBe("tenantId");
+		expect(partition.itemCount).toBe(42);
+	});
+
+	test("concurrency limits are usable", () => {
+		const config: BatchConfig = {
+			flushIntervalMs: 30000,
+			processBatch: {} as any,
+			maxConcurrentFlushes: 2,
+		};
+		const globalConfig: GlobalConfig = { maxConcurrentFlushes: 10 };
+		expect(config.maxConcurrentFlushes).toBe(2);
+		expect(globalConfig.maxConcurrentFlushes).toBe(10);
+	});
+
+	test("BatchConfig accepts rateLimit", () => {
+		const config: BatchConfig = {
+			flushIntervalMs: 1000,
+			processBatch: {} as any,
+			rateLimit: { requestsPerSecond: 10, itemsPerSecond: 1000 },
+		};
+		const budget: BatchStatusResult["rateLimitBudget"] = { requestTokens: 9, itemTokens: 900 };
+		expect(config.rateLimit?.requestsPerSecond).toBe(10);
+		expect(budget?.requestTokens).toBe(9);
+	});
+
+	test("BatchConfig accepts circuitBreaker", () => {
+		const config: BatchConfig = {
+			flushIntervalMs: 30000,
+			processBatch: {} as any,
+			circuitBreaker: { failureThreshold: 5, cooldownMs: 60000 },
+		};
+		const status: CircuitBreakerStatus = {
+			state: "half_open",
+			consecutiveFailures: 5,
+			openedAt: 1000,
+			reopensAt: 61000,
+			probeBatchId: "events::3",
+			blockedBatchCount: 2,
+		};
+		expect(config.circuitBreaker?.failureThreshold).toBe(5);
+		expect(status.state).toBe("half_open");
+	});
+
+	test("BatchConfig accepts ordered", () => {
+		const config: BatchConfig = {
+			flushIntervalMs: 30000,
+			processBatch: {} as any,
+			ordered: true,
+		};
+		expect(config.ordered).toBe(true);
+	});
+
+	test("BatchConfig accepts flushLeaseMs", () => {
+		const config: BatchConfig = {
+			flushIntervalMs: 30000,
+			processBatch: {} as any,
+			flushLeaseMs: 5 * 60 * 1000,
+		};
+		expect(config.flushLeaseMs).toBe(300000);
+	});
+
+	test("processBatchType accepts mutations", () => {
+		const config: BatchConfig = {
+			flushIntervalMs: 30000,
+			processBatch: {} as FunctionReference<"mutation", "internal", { items: unknown[] }>,
+			processBatchType: "mutation",
+		};
+		const iteratorConfig: IteratorConfig = {
+			batchSize: 50,
+			getNextBatch: {} as any, // FunctionReference mock
+			processBatch: {} as FunctionReference<"mutation", "internal", { items: unknown[] }>,
+			processBatchType: "mutation",
+		};
+		expect(config.processBatchType).toBe("mutation");
+		expect(iteratorConfig.processBatchType).toBe("mutation");
+	});
+
+	test("processBatchType must match the processBatch reference", () => {
+		const mutation = {} as FunctionReference<"mutation", "internal", { items: unknown[] }>;
+		const action = {} as FunctionReference<"action", "internal", { items: unknown[] }>;
+		// @ts-expect-error A mutation processBatch requires processBatchType: "mutation"
+		const withoutType: BatchConfig = { flushIntervalMs: 30000, processBatch: mutation };
+		// @ts-expect-error An action processBatch can't be called as a mutation
+		const withWrongType: BatchConfig = {
+			flushIntervalMs: 30000,
+			processBatch: action,
+			processBatchType: "mutation",
+		};
+		expect(withoutType.processBatchType).toBeUndefined();
+		expect(withWrongType.processBatchType).toBe("mutation");
+	});
+
+	test("FlushHistoryItem includes the processBatch result", () => {
+		const item: FlushHistoryItem = {
+			batchId: "events",
+			itemCount: 2,
+			flushedAt: 1000,
+			durationMs: 15,
+			success: true,
+			result: { requestId: "req_123" },
+		};
+		expect(item.result).toEqual({ requestId: "req_123" });
+	});
+
+	test("UpdateBatchConfigResult type is usable", () => {
+		const result: UpdateBatchConfigResult = { batchId: "events", updatedCount: 2 };
+		expect(result.updatedCount).toBe(2);
+	});
+
+	test("BatchConfigUpdate excludes the options batches are bound to", () => {
+		const update: BatchConfigUpdate = { flushIntervalMs: 5000, maxBatchBytes: 1024 };
+		// @ts-expect-error Batches keep their partition
+		const partitioned: BatchConfigUpdate = { partitionBy: "tenantId" };
+		const unset: UnsettableBatchConfigField[] = ["maxBatchBytes", "onFlushComplete"];
+		// @ts-expect-error Required fields can't be unset
+		const required: UnsettableBatchConfigField = "flushIntervalMs";
+		expect(update.flushIntervalMs).toBe(5000);
+		expect(partitioned).toEqual({ partitionBy: "tenantId" });
+		expect(unset).toHaveLength(2);
+		expect(required).toBe("flushIntervalMs");
+	});
+
+	test("InvalidHandle and RebindResult types are usable", () => {
+		const invalid: InvalidHandle = { handle: "function://abc", batchCount: 2, jobCount: 1 };
+		const result: RebindResult = { batchCount: invalid.batchCount, jobCount: invalid.jobCount };
+		expect(result.batchCount).toBe(2);
+	});
+
+	test("PauseResult type is usable", () => {
+		const result: PauseResult = { batchId: "events", paused: true, pausedAt: 1000 };
+		expect(result.paused).toBe(true);
+	});
+
+	test("DeadLetter type is usable", () => {
+		const deadLetter: DeadLetter<{ id: number }> = {
+			deadLetterId: "dl-123",
+			batchId: "events::0",
+			baseBatchId: "events",
+			itemCount: 1,
+			attempts: 3,
+			lastErrorMessage: "Downstream unavailable",
+			createdAt: 1000,
+			deadLetteredAt: 2000,
+			failedAttempts: [{ attemptedAt: 1500, durationMs: 20, itemCount: 1, errorMessage: "boom" }],
+			items: [{ id: 1 }],
+		};
+		expect(deadLetter.items.length).toBe(1);
+	});
+
 	test("IteratorConfig type is usable", () => {
 		const config: IteratorConfig = {
 			batchSize: 50,
@@ -113,6 +405,51 @@ describe("type exports", () => {
 		expect(args.items.length).toBe(1);
 	});
 
+	test("ProcessBatchArgs accepts metadata", () => {
+		const args: ProcessBatchArgs<{ id: number }> = {
+			items: [{ id: 1 }],
+			metadata: {
+				flushId: "events::3:5f1c9a0e2b7d4c36",
+				batchId: "events::3",
+				baseBatchId: "events",
+				sequence: 3,
+				chunkIndex: 0,
+				attempt: 2,
+				firstItemAt: 1000,
+				lastItemAt: 2000,
+			},
+		};
+		expect(args.metadata?.attempt).toBe(2);
+	});
+
+	test("ProcessBatchResult type is usable", () => {
+		const result: ProcessBatchResult = {
+			failed: [{ index: 0, error: "Rejected" }, { key: "event-42" }],
+		};
+		expect(result.failed?.length).toBe(2);
+	});
+
+	test("flush callback types are usable", () => {
+		const config: BatchConfig = {
+			flushIntervalMs: 30000,
+			processBatch: {} as any,
+			onFlushComplete: {} as any, // FunctionReference mock
+			onFlushFailed: {} as any, // FunctionReference mock
+		};
+		const failed: OnFlushFailedArgs = {
+			flushHistoryId: "flush-1",
+			batchId: "events",
+			itemCount: 10,
+			durationMs: 250,
+			errorMessage: "Downstream unavailable",
+			failedCount: 10,
+			deadLettered: false,
+		};
+		const complete: OnFlushCompleteArgs = { ...failed };
+		expect(config.onFlushComplete).toBeDefined();
+		expect(complete.itemCount).toBe(10);
+	});
+
 	test("OnCompleteArgs type is usable", () => {
 		const args: OnCompleteArgs = {
 			jobId: "job-123",
@@ -5,25 +5,302 @@ import {
 	createFunctionHandle,
 } from "convex/server";
 
-export type BatchStatus = "accumulating" | "flushing" | "completed";
-export type JobStatus = "pending" | "running" | "paused" | "completed" | "failed";
+/** "handle_invalid": a stored function handle can't be resolved (see rebindHandle) */
+export type BatchStatus = "accumulating" | "flushing" | "completed" | "handle_invalid";
+export type JobStatus =
+	| "pending"
+	| "running"
+	| "paused"
+	| "completed"
+	| "failed"
+	| "handle_invalid";
+/** How processBatch is called: as an action (at least once) or a mutation (exactly once) */
+export type ProcessBatchType = "action" | "mutation";
 
-// User-facing config interfaces (accept FunctionReference)
-export interface BatchConfig<T = unknown> {
+/**
+ * Backoff for retrying failed flushes. The n-th consecutive failure is retried after
+ * initialDelayMs * multiplier^(n - 1), capped at maxDelayMs.
+ */
+export interface RetryPolicy {
+	initialDelayMs: number;
+	/** Default: 2 */
+	multiplier?: number;
+	/** Default: 300000 (5 minutes) */
+	maxDelayMs?: number;
+	/** Fraction (0-1) of each delay that is randomized to spread out retries. Default: 0 */
+	jitter?: number;
+}
+
+/**
+ * Collapses items that share a key when a batch is flushed, so processBatch only sees
+ * one item per key (per chunk).
+ */
+export interface DedupeBy {
+	/** Item field (dotted paths allowed) that identifies duplicates */
+	key: string;
+	/** Which occurrence to deliver. Default: "last" (the newest item) */
+	keep?: "first" | "last";
+}
+
+/**
+ * Token-bucket rate limit. Each bucket holds one second of budget and refills
+ * continuously, so short bursts up to the per-second rate are allowed.
+ */
+export interface RateLimit {
+	/** Maximum processBatch calls per second */
+	requestsPerSecond?: number;
+	/**
+	 * Maximum items delivered per second. A flush chunk larger than this is delivered once
+	 * the bucket is full, and its excess is paid off before the next call.
+	 */
+	itemsPerSecond?: number;
+}
+
+/**
+ * Circuit breaker for a failing processBatch. After failureThreshold consecutive failed
+ * flushes the breaker opens and all flushes to the processBatch are suspended for
+ * cooldownMs. It then half-opens: a single probe flush is delivered, and its result
+ * closes the breaker (resuming all flushes) or opens it for another cool-down.
+ */
+export interface CircuitBreakerConfig {
+	failureThreshold: number;
+	cooldownMs: number;
+}
+
+export type CircuitBreakerState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerStatus {
+	state: CircuitBreakerState;
+	/** Consecutive failed flushes (reset by a successful one) */
+	consecutiveFailures: number;
+	openedAt?: number;
+	/** When an open breaker half-opens */
+	reopensAt?: number;
+	/** Batch delivering the probe flush (while half-open) */
+	probeBatchId?: string;
+	/** Batches waiting for the breaker to close */
+	blockedBatchCount: number;
+}
+
+export type Reducer = "sum" | "max" | "min" | "first" | "last" | "count";
+
+/**
+ * Reducer mode: each flush delivers reduced values to processBatch (as `items`) instead
+ * of the accumulated items. Reduced flushes succeed or fail as a whole.
+ */
+export interface ReduceConfig<T = unknown> {
+	/**
+	 * Item field (dotted paths allowed) to reduce by. Each distinct value yields one
+	 * reduced item containing that field. Without groupBy, all items reduce to one value.
+	 */
+	groupBy?: string;
+	/** Built-in reducer per item field, e.g. `{ views: "sum", lastSeenAt: "max" }` */
+	fields?: Record<string, Reducer>;
+	/**
+	 * Custom merge function: a query that receives the items of a flush and returns the
+	 * reduced items (an array, or a single value). Takes precedence over `fields`.
+	 */
+	merge?: FunctionReference<"query", "internal", { items: T[] }>;
+}
+
+/**
+ * Groups items into tumbling windows by their own timestamp instead of arrival time.
+ * Each window is a separate batch, flushed once the window closes.
+ */
+export interface EventTimeWindow {
+	/** Item field (dotted paths allowed) with the event time in ms since the epoch */
+	timestampField: string;
+	/** Window size, e.g. 5 * 60 * 1000 for 5-minute windows */
+	windowMs: number;
+	/**
+	 * How long a window keeps accepting items after it ends. Items for windows that have
+	 * closed are dropped and counted in BatchResult.lateItemCount. Default: 0
+	 */
+	allowedLatenessMs?: number;
+}
+
+/**
+ * The processBatch function of a config: an action by default, or a mutation with
+ * processBatchType "mutation".
+ */
+export type ProcessBatchFunction<T = unknown> =
+	| {
+			processBatch: FunctionReference<"action", "internal", { items: T[] }>;
+			processBatchType?: "action";
+	  }
+	| {
+			processBatch: FunctionReference<"mutation", "internal", { items: T[] }>;
+			/**
+			 * Required for a mutation processBatch. Batch accumulators then deliver each chunk
+			 * in a transaction that also removes its items from the batch, and iterators run it
+			 * in the transaction that advances the job's cursor, so each item is processed
+			 * exactly once (actions are called at least once: a chunk whose result can't be
+			 * recorded is delivered again).
+			 */
+			processBatchType: "mutation";
+	  };
+
+// User-facing config types (accept FunctionReference)
+export type BatchConfig<T = unknown> = BatchConfigOptions<T> & ProcessBatchFunction<T>;
+
+/** BatchConfig without processBatch (see ProcessBatchFunction) */
+export interface BatchConfigOptions<T = unknown> {
 	/**
 	 * Triggers an immediate flush when a single addItems() call adds this many items.
-	 * For accumulating small items over time, use flushIntervalMs instead.
+	 * For accumulating small items over time, use flushIntervalMs or cumulativeFlushThreshold.
 	 */
 	immediateFlushThreshold?: number;
+	/**
+	 * Flushes once this many items are pending, however many addItems() calls added them.
+	 * Tracked with sharded counters so concurrent addItems() calls rarely conflict; the
+	 * flush may fire slightly after the threshold is reached.
+	 */
+	cumulativeFlushThreshold?: number;
 	/**
 	 * @deprecated Use `immediateFlushThreshold` instead. This field will be removed in a future version.
 	 */
 	maxBatchSize?: number;
 	flushIntervalMs: number;
-	processBatch: FunctionReference<"action", "internal", { items: T[] }>;
+	/**
+	 * Number of consecutive failed flushes after which a batch's items are moved to the
+	 * dead-letter queue instead of being retried. Retries indefinitely when omitted.
+	 */
+	maxFlushAttempts?: number;
+	/**
+	 * Schedules retries of failed flushes with exponential backoff, independently of
+	 * flushIntervalMs. Without a policy, a failed flush is retried on the next interval.
+	 */
+	retryPolicy?: RetryPolicy;
+	/**
+	 * Item field (dotted paths allowed) that identifies items when processBatch reports
+	 * failed items by key. See ProcessBatchResult.
+	 */
+	itemKey?: string;
+	/**
+	 * Delivers each flush to processBatch in ordered chunks of at most this many items.
+	 * Delivered chunks are acknowledged individually, so a flush that fails or is
+	 * interrupted resumes from the next undelivered chunk.
+	 */
+	maxItemsPerFlush?: number;
+	/**
+	 * Flushes once pending items reach this serialized size in bytes (JSON, UTF-8), and
+	 * limits each processBatch call to this size. Like cumulativeFlushThreshold, the size
+	 * is accumulated across addItems() calls.
+	 */
+	maxBatchBytes?: number;
+	/**
+	 * How long idempotency keys passed to addItems() (and item keys, with dedupeItemsByKey)
+	 * are remembered. Default: 24 hours.
+	 */
+	idempotencyWindowMs?: number;
+	/**
+	 * Drops items whose `itemKey` value was already added to this batch ID within
+	 * idempotencyWindowMs. Requires itemKey.
+	 */
+	dedupeItemsByKey?: boolean;
+	/**
+	 * Collapses pending items sharing a key at flush time, e.g. for "latest state" updates.
+	 * Items without the key field are always delivered. The number of collapsed items is
+	 * recorded as duplicatesDropped in the flush history.
+	 */
+	dedupeBy?: DedupeBy;
+	/**
+	 * Reducer mode for counters and metrics. processBatch then receives the reduced values
+	 * as `items`, so declare its args accordingly (e.g. `BatchProcessor<any>`).
+	 */
+	reduce?: ReduceConfig<T>;
+	/**
+	 * Debounce mode: flushes once no items were added for this long, instead of
+	 * flushIntervalMs after the first item. Bursts are delivered as one batch.
+	 */
+	debounceMs?: number;
+	/**
+	 * With debounceMs, the longest an item waits for a quiet period before the batch is
+	 * flushed anyway. Unlimited when omitted.
+	 */
+	maxWaitMs?: number;
+	/**
+	 * Flushes on wall-clock boundaries instead of flushIntervalMs: a 5-field cron expression
+	 * evaluated in UTC, e.g. "0 * * * *" (hourly) or "0 0 * * *" (daily at 00:00 UTC).
+	 * Each batch sequence then covers one schedule window.
+	 */
+	flushSchedule?: string;
+	/**
+	 * Event-time windowing: addItems() routes items to per-window batches by their
+	 * timestamp, and processBatch receives the window bounds as `window` (see
+	 * ProcessBatchArgs), so its args validator must accept it.
+	 */
+	eventTimeWindow?: EventTimeWindow;
+	/**
+	 * Item field (dotted paths allowed) to partition by: addItems() splits items by its
+	 * value into separate sub-batches of the batch ID, each flushed independently.
+	 * See listPartitions().
+	 */
+	partitionBy?: string;
+	/**
+	 * Maximum number of batches flushing at once with this processBatch (across all batch
+	 * IDs using it). Batches over the limit wait in a queue and flush in order as slots free
+	 * up. See configure() for a component-wide limit.
+	 */
+	maxConcurrentFlushes?: number;
+	/**
+	 * Token-bucket rate limit on processBatch calls, shared by all batch IDs using this
+	 * processBatch. Flushes (and further chunks of a flush) wait for budget instead of
+	 * calling processBatch. The current budget is reported by getBatchStatus().
+	 */
+	rateLimit?: RateLimit;
+	/**
+	 * Stops flushing to this processBatch (across all batch IDs using it) after repeated
+	 * failures, instead of every batch retrying on its own. See getCircuitBreakerState().
+	 */
+	circuitBreaker?: CircuitBreakerConfig;
+	/**
+	 * Strict ordered delivery: a batch ID has at most one flush in flight, and its batch
+	 * sequences are delivered in order (a newer sequence waits until the older ones,
+	 * including their retries, are delivered or dead-lettered). With partitionBy, each
+	 * partition is ordered on its own. Default: false
+	 */
+	ordered?: boolean;
+	/**
+	 * How long a flush may run before it is considered stuck (e.g. processBatch crashed
+	 * or timed out before its result was recorded). A watchdog then returns the batch to
+	 * "accumulating" and records the flush as an abandoned failed attempt. Renewed after
+	 * each delivered chunk. Values under 12 minutes (the action time limit plus a margin)
+	 * are raised to 12 minutes, so a processBatch call still running is never delivered
+	 * again.
+	 * Default: 15 minutes
+	 */
+	flushLeaseMs?: number;
+	/**
+	 * Passes FlushMetadata to processBatch as `metadata` (see ProcessBatchArgs), so its
+	 * args validator must accept it. Default: false
+	 */
+	includeMetadata?: boolean;
+	/**
+	 * Mutation called when a flush succeeds, in the same transaction that records it (so
+	 * it can update your own tables consistently). If it throws, its writes are rolled
+	 * back and the error is logged; the flush result is recorded regardless.
+	 */
+	onFlushComplete?: FunctionReference<"mutation", "internal", OnFlushCompleteArgs>;
+	/**
+	 * Mutation called when a flush fails (including flushes recovered by the watchdog and
+	 * the final attempt before dead-lettering). Called like onFlushComplete.
+	 */
+	onFlushFailed?: FunctionReference<"mutation", "internal", OnFlushFailedArgs>;
+	/**
+	 * Version of this config. Batches keep the config they were created with; when
+	 * addItems() is called with a higher configVersion than a batch ID's pending batches
+	 * have, the config is applied to all of them (and replaces updateBatchConfig() changes).
+	 * Calls with a lower version (e.g. from a deployment that is still rolling out) get the
+	 * config of the highest version. Without it, config changes only apply to new batches.
+	 */
+	configVersion?: number;
 }
 
-export interface IteratorConfig<T = unknown> {
+export type IteratorConfig<T = unknown> = IteratorConfigOptions & ProcessBatchFunction<T>;
+
+/** IteratorConfig without processBatch (see ProcessBatchFunction) */
+export interface IteratorConfigOptions {
 	batchSize: number;
 	delayBetweenBatchesMs?: number;
 	getNextBatch: FunctionReference<
@@ -31,7 +308,6 @@ export interface IteratorConfig<T = unknown> {
 		"internal",
 		{ cursor: string | undefined; batchSize: number }
 	>;
-	processBatch: FunctionReference<"action", "internal", { items: T[] }>;
 	onComplete?: FunctionReference<"mutation", "internal", { jobId: string; processedCount: number }>;
 	maxRetries?: number;
 }
@@ -39,10 +315,39 @@ export interface IteratorConfig<T = unknown> {
 // Internal config interfaces (use string handles for component API)
 interface InternalBatchConfig {
 	immediateFlushThreshold?: number;
+	cumulativeFlushThreshold?: number;
 	/** @deprecated */
 	maxBatchSize?: number;
 	flushIntervalMs: number;
 	processBatchHandle: string;
+	processBatchType?: ProcessBatchType;
+	maxFlushAttempts?: number;
+	retryPolicy?: RetryPolicy;
+	itemKey?: string;
+	maxItemsPerFlush?: number;
+	maxBatchBytes?: number;
+	idempotencyWindowMs?: number;
+	dedupeItemsByKey?: boolean;
+	dedupeBy?: DedupeBy;
+	reduce?: {
+		groupBy?: string;
+		fields?: Record<string, Reducer>;
+		mergeHandle?: string;
+	};
+	debounceMs?: number;
+	maxWaitMs?: number;
+	flushSchedule?: string;
+	eventTimeWindow?: EventTimeWindow;
+	partitionBy?: string;
+	maxConcurrentFlushes?: number;
+	rateLimit?: RateLimit;
+	circuitBreaker?: CircuitBreakerConfig;
+	ordered?: boolean;
+	flushLeaseMs?: number;
+	includeMetadata?: boolean;
+	onFlushCompleteHandle?: string;
+	onFlushFailedHandle?: string;
+	configVersion?: number;
 }
 
 interface InternalIteratorConfig {
@@ -50,15 +355,30 @@ interface InternalIteratorConfig {
 	delayBetweenBatchesMs?: number;
 	getNextBatchHandle: string;
 	processBatchHandle: string;
+	processBatchType?: ProcessBatchType;
 	onCompleteHandle?: string;
 	maxRetries?: number;
 }
 
+export interface AddItemsOptions {
+	/**
+	 * Identifies this call so that retries (e.g. of the calling mutation) are not enqueued
+	 * twice: a repeated key returns the original BatchResult without adding items.
+	 */
+	idempotencyKey?: string;
+}
+
 export interface BatchResult {
 	batchId: string;
 	itemCount: number;
 	flushed: boolean;
 	status: BatchStatus;
+	/** Items dropped because their key was already added (dedupeItemsByKey) */
+	skippedItemCount?: number;
+	/** Items dropped because their event-time window had already closed (eventTimeWindow) */
+	lateItemCount?: number;
+	/** True when this result was returned for a repeated idempotencyKey */
+	duplicate?: boolean;
 }
 
 export interface FlushResult {
@@ -69,19 +389,88 @@ export interface FlushResult {
 	reason?: string;
 }
 
+export interface PauseResult {
+	batchId: string;
+	paused: boolean;
+	pausedAt?: number;
+}
+
+/**
+ * BatchConfig fields to change with updateBatchConfig(). A new processBatch comes with
+ * its processBatchType, like in BatchConfig. Batches are bound to their schedule window,
+ * event-time window and partition, so those options can't be updated. configVersion
+ * belongs to the BatchProcessor config.
+ */
+export type BatchConfigUpdate<T = unknown> = Partial<
+	Omit<BatchConfigOptions<T>, FixedBatchConfigField>
+> &
+	(ProcessBatchFunction<T> | { processBatch?: undefined; processBatchType?: undefined });
+
+type FixedBatchConfigField = "flushSchedule" | "eventTimeWindow" | "partitionBy" | "configVersion";
+
+/** Optional BatchConfig fields that updateBatchConfig() can remove (see its `unset` option) */
+export type UnsettableBatchConfigField = Exclude<
+	keyof BatchConfigOptions,
+	"flushIntervalMs" | FixedBatchConfigField
+>;
+
+export interface UpdateBatchConfigResult {
+	batchId: string;
+	/** Number of active batches whose config changed */
+	updatedCount: number;
+}
+
 export interface BatchStatusResult {
 	batchId: string; // Client's original ID
+	/** True while flushes are suspended by pauseBatch() */
+	paused: boolean;
+	pausedAt?: number;
 	batches: Array<{
-		status: "accumulating" | "flushing";
+		status: "accumulating" | "flushing" | "handle_invalid";
 		itemCount: number;
+		/** Serialized size of the pending items in bytes */
+		byteSize: number;
 		createdAt: number;
 		lastUpdatedAt: number;
+		/** Consecutive failed flush attempts of this batch */
+		flushAttempts: number;
+		/** When the retry of a failed flush is scheduled (with a retry policy) */
+		nextRetryAt?: number;
+		/** Window covered by this batch (with flushSchedule or eventTimeWindow) */
+		windowStart?: number;
+		windowEnd?: number;
+		/** Partition of this batch (with partitionBy) */
+		partitionKey?: string;
+		/** Since when the batch is waiting for a free flush slot (concurrency limits) */
+		flushQueuedAt?: number;
+		/** Since when the batch is waiting for the circuit breaker to close */
+		circuitBlockedAt?: number;
+		/** Since when the batch is waiting for older sequences to be delivered (ordered) */
+		orderBlockedAt?: number;
+		/** When a flush in progress is considered stuck and recovered */
+		flushLeaseExpiresAt?: number;
 	}>;
 	config: {
 		immediateFlushThreshold?: number;
+		cumulativeFlushThreshold?: number;
 		/** @deprecated */
 		maxBatchSize?: number;
 		flushIntervalMs: number;
+		maxFlushAttempts?: number;
+		retryPolicy?: RetryPolicy;
+		maxBatchBytes?: number;
+		debounceMs?: number;
+		maxWaitMs?: number;
+		flushSchedule?: string;
+		maxConcurrentFlushes?: number;
+		rateLimit?: RateLimit;
+		circuitBreaker?: CircuitBreakerConfig;
+		ordered?: boolean;
+	};
+	/** Tokens currently available to the processBatch (with rateLimit) */
+	rateLimitBudget?: {
+		requestTokens?: number;
+		itemTokens?: number;
 	};
 }
 
@@ -89,6 +478,7 @@ export interface BatchListItem {
 	batchId: string;
 	baseBatchId: string;
 	sequence: number;
+	partitionKey?: string;
 	itemCount: number;
 	status: BatchStatus;
 	createdAt: number;
@@ -131,6 +521,103 @@ export interface FlushHistoryItem {
 	durationMs: number;
 	success: boolean;
 	errorMessage?: string;
+	/** True when this failure exhausted maxFlushAttempts and the items were dead-lettered */
+	deadLettered?: boolean;
+	succeededCount?: number;
+	failedCount?: number;
+	/** Number of processBatch calls made by this flush */
+	chunkCount?: number;
+	/** Serialized size of the flushed items in bytes */
+	byteSize?: number;
+	/** Items collapsed by dedupeBy instead of being delivered (included in itemCount) */
+	duplicatesDropped?: number;
+	/** Window of the flushed batch (with flushSchedule or eventTimeWindow) */
+	windowStart?: number;
+	windowEnd?: number;
+	/** Partition of the flushed batch (with partitionBy) */
+	partitionKey?: string;
+	/** True when the flush got no result before its lease expired (see flushLeaseMs) */
+	abandoned?: boolean;
+	/**
+	 * Return value of the flush's last processBatch call (the failing one for failed
+	 * flushes). Values over 8 KB (serialized) are not stored; resultOmitted is set instead.
+	 */
+	result?: unknown;
+	resultOmitted?: boolean;
+	/** True when processBatch couldn't be resolved (the batch waits for rebindHandle) */
+	handleInvalid?: boolean;
+}
+
+export interface PartitionListItem {
+	/** Value of the partitionBy field; undefined for items without it */
+	partitionKey?: string;
+	/** Pending items across the partition's active batches */
+	itemCount: number;
+	byteSize: number;
+	/** Active (accumulating or flushing) batches of the partition */
+	batchCount: number;
+	/** Whether a flush of the partition is in progress */
+	flushing: boolean;
+	lastUpdatedAt: number;
+}
+
+export interface FlushAttempt {
+	attemptedAt: number;
+	durationMs: number;
+	itemCount: number;
+	errorMessage?: string;
+}
+
+export interface DeadLetterListItem {
+	deadLetterId: string;
+	batchId: string; // Internal ID of the exhausted batch ("base::0")
+	baseBatchId: string;
+	partitionKey?: string;
+	itemCount: number;
+	/** Number of failed flushes before the batch was dead-lettered */
+	attempts: number;
+	lastErrorMessage?: string;
+	createdAt: number;
+	deadLetteredAt: number;
+}
+
+export interface DeadLetter<T = unknown> extends DeadLetterListItem {
+	/** The most recent failed attempts (up to 20) */
+	failedAttempts: FlushAttempt[];
+	items: T[];
+}
+
+export interface ReplayDeadLetterResult {
+	replayed: boolean;
+	itemCount: number;
+	reason?: string;
+}
+
+export interface PurgeDeadLettersResult {
+	purged: number;
+	hasMore: boolean;
+}
+
+/** A function handle that batches or iterator jobs can't resolve, see listInvalidHandles() */
+export interface InvalidHandle {
+	handle: string;
+	/** Batches in the "handle_invalid" state */
+	batchCount: number;
+	/** Iterator jobs in the "handle_invalid" state */
+	jobCount: number;
+}
+
+export interface RebindResult {
+	/** Unfinished batches that used the old handle */
+	batchCount: number;
+	/** Unfinished iterator jobs that used the old handle */
+	jobCount: number;
+}
+
+/** Component-wide settings, see BatchProcessor.configure() */
+export interface GlobalConfig {
+	/** Maximum number of batches flushing at once across all batch IDs and processors */
+	maxConcurrentFlushes?: number;
 }
 
 export interface BatchProcessorAPI {
@@ -138,7 +625,12 @@ export interface BatchProcessorAPI {
 		addItems: FunctionReference<
 			"mutation",
 			"internal",
-			{ batchId: string; items: unknown[]; config: InternalBatchConfig },
+			{
+				batchId: string;
+				items: unknown[];
+				config: InternalBatchConfig;
+				idempotencyKey?: string;
+			},
 			BatchResult
 		>;
 		flushBatch: FunctionReference<"mutation", "internal", { batchId: string }, FlushResult>;
@@ -160,12 +652,78 @@ export interface BatchProcessorAPI {
 			{ baseBatchId: string },
 			BatchListItem[]
 		>;
+		listPartitions: FunctionReference<
+			"query",
+			"internal",
+			{ baseBatchId: string },
+			PartitionListItem[]
+		>;
+		pauseBatch: FunctionReference<"mutation", "internal", { baseBatchId: string }, PauseResult>;
+		resumeBatch: FunctionReference<"mutation", "internal", { baseBatchId: string }, PauseResult>;
+		updateBatchConfig: FunctionReference<
+			"mutation",
+			"internal",
+			{
+				baseBatchId: string;
+				config: Partial<Omit<InternalBatchConfig, FixedBatchConfigField>>;
+				unset?: string[];
+			},
+			UpdateBatchConfigResult
+		>;
 		deleteBatch: FunctionReference<
 			"mutation",
 			"internal",
 			{ batchId: string },
 			{ deleted: boolean; reason?: string }
 		>;
+		listDeadLetters: FunctionReference<
+			"query",
+			"internal",
+			{ baseBatchId?: string; limit?: number },
+			DeadLetterListItem[]
+		>;
+		getDeadLetter: FunctionReference<
+			"query",
+			"internal",
+			{ deadLetterId: string },
+			DeadLetter | null
+		>;
+		replayDeadLetter: FunctionReference<
+			"mutation",
+			"internal",
+			{ deadLetterId: string; config?: InternalBatchConfig },
+			ReplayDeadLetterResult
+		>;
+		purgeDeadLetters: FunctionReference<
+			"mutation",
+			"internal",
+			{ baseBatchId?: string; olderThan?: number },
+			PurgeDeadLettersResult
+		>;
+		configure: FunctionReference<
+			"mutation",
+			"internal",
+			{ maxConcurrentFlushes?: number },
+			GlobalConfig
+		>;
+		getCircuitBreakerState: FunctionReference<
+			"query",
+			"internal",
+			{ processBatchHandle: string },
+			CircuitBreakerStatus
+		>;
+		listInvalidHandles: FunctionReference<
+			"query",
+			"internal",
+			Record<string, never>,
+			InvalidHandle[]
+		>;
+		rebindHandle: FunctionReference<
+			"mutation",
+			"internal",
+			{ oldHandle: string; newHandle: string },
+			RebindResult
+		>;
 		startIteratorJob: FunctionReference<
 			"mutation",
 			"internal",
@@ -205,35 +763,94 @@ export class BatchProcessor<T = unknown> {
 	private component: BatchProcessorAPI;
 	private config?: BatchConfig<T>;
 	private processBatchHandle: string | null = null;
+	private mergeHandle: string | null = null;
+	private onFlushCompleteHandle: string | null = null;
+	private onFlushFailedHandle: string | null = null;
 
 	constructor(component: BatchProcessorAPI, config?: BatchConfig<T>) {
 		this.component = component;
 		this.config = config;
 	}
 
-	async addItems(ctx: GenericMutationCtx<any>, batchId: string, items: T[]): Promise<BatchResult> {
-		if (!this.config) {
+	async addItems(
+		ctx: GenericMutationCtx<any>,
+		batchId: string,
+		items: T[],
+		options?: AddItemsOptions,
+	): Promise<BatchResult> {
+		const config = await this.getInternalConfig();
+		if (!config) {
 			throw new Error(
 				"BatchProcessor config with processBatch is required to use addItems. Pass config to the constructor.",
 			);
 		}
 
+		return await ctx.runMutation(this.component.lib.addItems, {
+			batchId,
+			items,
+			config,
+			idempotencyKey: options?.idempotencyKey,
+		});
+	}
+
+	// The config as passed to the component, with functions replaced by their handles
+	private async getInternalConfig(): Promise<InternalBatchConfig | undefined> {
+		if (!this.config) {
+			return undefined;
+		}
+
 		if (!this.processBatchHandle) {
 			this.processBatchHandle = await createFunctionHandle(this.config.processBatch);
 		}
 
+		const { reduce } = this.config;
+		if (reduce?.merge && !this.mergeHandle) {
+			this.mergeHandle = await createFunctionHandle(reduce.merge);
+		}
+		const { onFlushComplete, onFlushFailed } = this.config;
+		if (onFlushComplete && !this.onFlushCompleteHandle) {
+			this.onFlushCompleteHandle = await createFunctionHandle(onFlushComplete);
+		}
+		if (onFlushFailed && !this.onFlushFailedHandle) {
+			this.onFlushFailedHandle = await createFunctionHandle(onFlushFailed);
+		}
+
 		const internalConfig: InternalBatchConfig = {
 			immediateFlushThreshold: this.config.immediateFlushThreshold,
+			cumulativeFlushThreshold: this.config.cumulativeFlushThreshold,
 			maxBatchSize: this.config.maxBatchSize,
 			flushIntervalMs: this.config.flushIntervalMs,
 			processBatchHandle: this.processBatchHandle,
+			processBatchType: this.config.processBatchType,
+			maxFlushAttempts: this.config.maxFlushAttempts,
+			retryPolicy: this.config.retryPolicy,
+			itemKey: this.config.itemKey,
+			maxItemsPerFlush: this.config.maxItemsPerFlush,
+			maxBatchBytes: this.config.maxBatchBytes,
+			idempotencyWindowMs: this.config.idempotencyWindowMs,
+			dedupeItemsByKey: this.config.dedupeItemsByKey,
+			dedupeBy: this.config.dedupeBy,
+			reduce: reduce && {
+				groupBy: reduce.groupBy,
+				fields: reduce.fields,
+				mergeHandle: this.mergeHandle ?? undefined,
+			},
+			debounceMs: this.config.debounceMs,
+			maxWaitMs: this.config.maxWaitMs,
+			flushSchedule: this.config.flushSchedule,
+			eventTimeWindow: this.config.eventTimeWindow,
+			partitionBy: this.config.partitionBy,
+			maxConcurrentFlushes: this.config.maxConcurrentFlushes,
+			rateLimit: this.config.rateLimit,
+			circuitBreaker: this.config.circuitBreaker,
+			ordered: this.config.ordered,
+			flushLeaseMs: this.config.flushLeaseMs,
+			includeMetadata: this.config.includeMetadata,
+			onFlushCompleteHandle: this.onFlushCompleteHandle ?? undefined,
+			onFlushFailedHandle: this.onFlushFailedHandle ?? undefined,
+			configVersion: this.config.configVersion,
 		};
-
-		return await ctx.runMutation(this.component.lib.addItems, {
-			batchId,
-			items,
-			config: internalConfig,
-		});
+		return internalConfig;
 	}
 
 	async flush(ctx: GenericMutationCtx<any>, batchId: string): Promise<FlushResult> {
@@ -262,6 +879,67 @@ export class BatchProcessor<T = unknown> {
 		return await ctx.runQuery(this.component.lib.getAllBatchesForBaseId, { baseBatchId });
 	}
 
+	async listPartitions(
+		ctx: GenericQueryCtx<any>,
+		baseBatchId: string,
+	): Promise<PartitionListItem[]> {
+		return await ctx.runQuery(this.component.lib.listPartitions, { baseBatchId });
+	}
+
+	/**
+	 * Suspends the flushes of a batch ID, e.g. during downstream maintenance. addItems()
+	 * keeps accepting items; timers are suspended until resumeBatch().
+	 */
+	async pauseBatch(ctx: GenericMutationCtx<any>, baseBatchId: string): Promise<PauseResult> {
+		return await ctx.runMutation(this.component.lib.pauseBatch, { baseBatchId });
+	}
+
+	/** Resumes a paused batch ID and flushes what accumulated meanwhile */
+	async resumeBatch(ctx: GenericMutationCtx<any>, baseBatchId: string): Promise<PauseResult> {
+		return await ctx.runMutation(this.component.lib.resumeBatch, { baseBatchId });
+	}
+
+	/**
+	 * Updates the config of a batch ID's pending batches (all sequences and partitions),
+	 * e.g. to apply a new flushIntervalMs without waiting for the next batch. Omitted
+	 * fields keep their values, and fields listed in `options.unset` are removed; timers
+	 * and thresholds are reconciled with the new config. The update also applies to the
+	 * batches that addItems() creates later, until the BatchProcessor config itself
+	 * changes (e.g. after a deploy).
+	 */
+	async updateBatchConfig(
+		ctx: GenericMutationCtx<any>,
+		baseBatchId: string,
+		config: BatchConfigUpdate<T>,
+		options?: { unset?: UnsettableBatchConfigField[] },
+	): Promise<UpdateBatchConfigResult> {
+		const { processBatch, reduce, onFlushComplete, onFlushFailed, ...fields } = config;
+		const internalConfig: Partial<Omit<InternalBatchConfig, FixedBatchConfigField>> = {
+			...fields,
+			...(processBatch && { processBatchHandle: await createFunctionHandle(processBatch) }),
+			...(reduce && {
+				reduce: {
+					groupBy: reduce.groupBy,
+					fields: reduce.fields,
+					mergeHandle: reduce.merge && (await createFunctionHandle(reduce.merge)),
+				},
+			}),
+			...(onFlushComplete && {
+				onFlushCompleteHandle: await createFunctionHandle(onFlushComplete),
+			}),
+			...(onFlushFailed && { onFlushFailedHandle: await createFunctionHandle(onFlushFailed) }),
+		};
+		// Callbacks are stored as handles under their own names
+		const unset = options?.unset?.map((field) =>
+			field === "onFlushComplete" || field === "onFlushFailed" ? `${field}Handle` : field,
+		);
+		return await ctx.runMutation(this.component.lib.updateBatchConfig, {
+			baseBatchId,
+			config: internalConfig,
+			...(unset && { unset }),
+		});
+	}
+
 	async deleteBatch(
 		ctx: GenericMutationCtx<any>,
 		batchId: string,
@@ -269,6 +947,90 @@ export class BatchProcessor<T = unknown> {
 		return await ctx.runMutation(this.component.lib.deleteBatch, { batchId });
 	}
 
+	async listDeadLetters(
+		ctx: GenericQueryCtx<any>,
+		options?: { baseBatchId?: string; limit?: number },
+	): Promise<DeadLetterListItem[]> {
+		return await ctx.runQuery(this.component.lib.listDeadLetters, options ?? {});
+	}
+
+	async getDeadLetter(
+		ctx: GenericQueryCtx<any>,
+		deadLetterId: string,
+	): Promise<DeadLetter<T> | null> {
+		return (await ctx.runQuery(this.component.lib.getDeadLetter, {
+			deadLetterId,
+		})) as DeadLetter<T> | null;
+	}
+
+	async replayDeadLetter(
+		ctx: GenericMutationCtx<any>,
+		deadLetterId: string,
+	): Promise<ReplayDeadLetterResult> {
+		return await ctx.runMutation(this.component.lib.replayDeadLetter, {
+			deadLetterId,
+			config: await this.getInternalConfig(),
+		});
+	}
+
+	async purgeDeadLetters(
+		ctx: GenericMutationCtx<any>,
+		options?: { baseBatchId?: string; olderThan?: number },
+	): Promise<PurgeDeadLettersResult> {
+		return await ctx.runMutation(this.component.lib.purgeDeadLetters, options ?? {});
+	}
+
+	/**
+	 * Sets component-wide settings, replacing the previous ones. They apply to all
+	 * BatchProcessor instances using this component.
+	 */
+	async configure(ctx: GenericMutationCtx<any>, config: GlobalConfig): Promise<GlobalConfig> {
+		return await ctx.runMutation(this.component.lib.configure, config);
+	}
+
+	/**
+	 * Returns the circuit breaker state of this processor's processBatch (see
+	 * circuitBreaker in BatchConfig).
+	 */
+	async getCircuitBreakerState(ctx: GenericQueryCtx<any>): Promise<CircuitBreakerStatus> {
+		if (!this.config) {
+			throw new Error(
+				"BatchProcessor config with processBatch is required to use getCircuitBreakerState. Pass config to the constructor.",
+			);
+		}
+		if (!this.processBatchHandle) {
+			this.processBatchHandle = await createFunctionHandle(this.config.processBatch);
+		}
+		return await ctx.runQuery(this.component.lib.getCircuitBreakerState, {
+			processBatchHandle: this.processBatchHandle,
+		});
+	}
+
+	/**
+	 * Lists the function handles that batches or iterator jobs failed to resolve (e.g.
+	 * after renaming processBatch): the handle of the call that failed, which may also be
+	 * a merge query, getNextBatch or onComplete. Their batches and jobs are in the
+	 * "handle_invalid" state until the handle is rebound with rebindHandle().
+	 */
+	async listInvalidHandles(ctx: GenericQueryCtx<any>): Promise<InvalidHandle[]> {
+		return await ctx.runQuery(this.component.lib.listInvalidHandles, {});
+	}
+
+	/**
+	 * Points all unfinished batches and iterator jobs using oldHandle to a new function
+	 * and resumes the ones in the "handle_invalid" state.
+	 */
+	async rebindHandle(
+		ctx: GenericMutationCtx<any>,
+		oldHandle: string,
+		newFunction: FunctionReference<"action" | "mutation" | "query", "internal">,
+	): Promise<RebindResult> {
+		return await ctx.runMutation(this.component.lib.rebindHandle, {
+			oldHandle,
+			newHandle: await createFunctionHandle(newFunction),
+		});
+	}
+
 	async startIterator<T>(
 		ctx: GenericMutationCtx<any>,
 		jobId: string,
@@ -279,6 +1041,7 @@ export class BatchProcessor<T = unknown> {
 			delayBetweenBatchesMs: config.delayBetweenBatchesMs,
 			getNextBatchHandle: await createFunctionHandle(config.getNextBatch),
 			processBatchHandle: await createFunctionHandle(config.processBatch),
+			processBatchType: config.processBatchType,
 			onCompleteHandle: config.onComplete
 				? await createFunctionHandle(config.onComplete)
 				: undefined,
@@ -341,9 +1104,70 @@ export interface GetNextBatchArgs {
 
 export interface ProcessBatchArgs<T = unknown> {
 	items: T[];
+	/** Bounds of the event-time window of the items (only with eventTimeWindow) */
+	window?: { start: number; end: number };
+	/** Which flush the items belong to (only with includeMetadata) */
+	metadata?: FlushMetadata;
+}
+
+/**
+ * Identifies a processBatch call of a batch accumulator flush. Each call delivers one
+ * chunk of a batch sequence; retries of a chunk deliver the same items under the same
+ * flushId and increase attempt, so sinks can make their writes idempotent.
+ */
+export interface FlushMetadata {
+	/**
+	 * Stable ID of the chunk's items: `${batchId}:${hash}`. When only some of the items
+	 * failed, the retry of the failed ones is a new chunk with a new flushId.
+	 */
+	flushId: string;
+	/** Full ID of the batch sequence, e.g. "events::3" */
+	batchId: string;
+	baseBatchId: string;
+	sequence: number;
+	/** Partition of the batch (with partitionBy) */
+	partitionKey?: string;
+	/** Number of chunks of this batch delivered before this one */
+	chunkIndex: number;
+	/** 1 for the first delivery of the chunk, then 2, 3, ... for retries of the same items */
+	attempt: number;
+	/** Time range in which the items were added */
+	firstItemAt: number;
+	lastItemAt: number;
+}
+
+/**
+ * Optional return value of a batch accumulator's processBatch. Items listed in `failed`
+ * (by index into `items`, or by the value of the configured `itemKey`) are kept for retry
+ * or dead-lettered; all other items are acknowledged. Throwing fails the whole flush.
+ */
+export interface ProcessBatchResult {
+	failed?: Array<{ index: number; error?: string } | { key: string; error?: string }>;
 }
 
 export interface OnCompleteArgs {
 	jobId: string;
 	processedCount: number;
 }
+
+/**
+ * Arguments of a batch accumulator's onFlushComplete mutation. (Types rather than
+ * interfaces, so they can be used as FunctionReference args.)
+ */
+export type OnFlushCompleteArgs = {
+	/** ID of the flush history entry of this flush (not FlushMetadata.flushId) */
+	flushHistoryId: string;
+	/** Base batch ID (as passed to addItems) */
+	batchId: string;
+	itemCount: number;
+	durationMs: number;
+};
+
+/** Arguments of a batch accumulator's onFlushFailed mutation */
+export type OnFlushFailedArgs = OnFlushCompleteArgs & {
+	errorMessage: string;
+	/** Items of the flush that failed (the others were delivered) */
+	failedCount: number;
+	/** True when this failure exhausted maxFlushAttempts and the items were dead-lettered */
+	deadLettered: boolean;
+};
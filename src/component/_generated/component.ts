@@ -30,11 +30,53 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         {
           batchId: string;
           config: {
+            circuitBreaker?: { cooldownMs: number; failureThreshold: number };
+            configVersion?: number;
+            cumulativeFlushThreshold?: number;
+            debounceMs?: number;
+            dedupeBy?: { keep?: "first" | "last"; key: string };
+            dedupeItemsByKey?: boolean;
+            eventTimeWindow?: {
+              allowedLatenessMs?: number;
+              timestampField: string;
+              windowMs: number;
+            };
             flushIntervalMs: number;
+            flushLeaseMs?: number;
+            flushSchedule?: string;
+            idempotencyWindowMs?: number;
             immediateFlushThreshold?: number;
+            includeMetadata?: boolean;
+            itemKey?: string;
+            maxBatchBytes?: number;
             maxBatchSize?: number;
+            maxConcurrentFlushes?: number;
+            maxFlushAttempts?: number;
+            maxItemsPerFlush?: number;
+            maxWaitMs?: number;
+            onFlushCompleteHandle?: string;
+            onFlushFailedHandle?: string;
+            ordered?: boolean;
+            partitionBy?: string;
             processBatchHandle: string;
+            processBatchType?: "action" | "mutation";
+            rateLimit?: { itemsPerSecond?: number; requestsPerSecond?: number };
+            reduce?: {
+              fields?: Record<
+                string,
+                "sum" | "max" | "min" | "first" | "last" | "count"
+              >;
+              groupBy?: string;
+              mergeHandle?: string;
+            };
+            retryPolicy?: {
+              initialDelayMs: number;
+              jitter?: number;
+              maxDelayMs?: number;
+              multiplier?: number;
+            };
           };
+          idempotencyKey?: string;
           items: Array<any>;
         },
         any,
@@ -47,6 +89,13 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         any,
         Name
       >;
+      configure: FunctionReference<
+        "mutation",
+        "internal",
+        { maxConcurrentFlushes?: number },
+        any,
+        Name
+      >;
       deleteBatch: FunctionReference<
         "mutation",
         "internal",
@@ -82,6 +131,20 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         any,
         Name
       >;
+      getCircuitBreakerState: FunctionReference<
+        "query",
+        "internal",
+        { processBatchHandle: string },
+        any,
+        Name
+      >;
+      getDeadLetter: FunctionReference<
+        "query",
+        "internal",
+        { deadLetterId: string },
+        any,
+        Name
+      >;
       getFlushHistory: FunctionReference<
         "query",
         "internal",
@@ -96,16 +159,50 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         any,
         Name
       >;
+      listDeadLetters: FunctionReference<
+        "query",
+        "internal",
+        { baseBatchId?: string; limit?: number },
+        any,
+        Name
+      >;
+      listInvalidHandles: FunctionReference<
+        "query",
+        "internal",
+        {},
+        any,
+        Name
+      >;
       listIteratorJobs: FunctionReference<
         "query",
         "internal",
         {
           limit?: number;
-          status?: "pending" | "running" | "paused" | "completed" | "failed";
+          status?:
+            | "pending"
+            | "running"
+            | "paused"
+            | "completed"
+            | "failed"
+            | "handle_invalid";
         },
         any,
         Name
       >;
+      listPartitions: FunctionReference<
+        "query",
+        "internal",
+        { baseBatchId: string },
+        any,
+        Name
+      >;
+      pauseBatch: FunctionReference<
+        "mutation",
+        "internal",
+        { baseBatchId: string },
+        any,
+        Name
+      >;
       pauseIteratorJob: FunctionReference<
         "mutation",
         "internal",
@@ -113,6 +210,83 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         any,
         Name
       >;
+      purgeDeadLetters: FunctionReference<
+        "mutation",
+        "internal",
+        { baseBatchId?: string; olderThan?: number },
+        any,
+        Name
+      >;
+      rebindHandle: FunctionReference<
+        "mutation",
+        "internal",
+        { newHandle: string; oldHandle: string },
+        any,
+        Name
+      >;
+      replayDeadLetter: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          config?: {
+            circuitBreaker?: { cooldownMs: number; failureThreshold: number };
+            configVersion?: number;
+            cumulativeFlushThreshold?: number;
+            debounceMs?: number;
+            dedupeBy?: { keep?: "first" | "last"; key: string };
+            dedupeItemsByKey?: boolean;
+            eventTimeWindow?: {
+              allowedLatenessMs?: number;
+              timestampField: string;
+              windowMs: number;
+            };
+            flushIntervalMs: number;
+            flushLeaseMs?: number;
+            flushSchedule?: string;
+            idempotencyWindowMs?: number;
+            immediateFlushThreshold?: number;
+            includeMetadata?: boolean;
+            itemKey?: string;
+            maxBatchBytes?: number;
+            maxBatchSize?: number;
+            maxConcurrentFlushes?: number;
+            maxFlushAttempts?: number;
+            maxItemsPerFlush?: number;
+            maxWaitMs?: number;
+            onFlushCompleteHandle?: string;
+            onFlushFailedHandle?: string;
+            ordered?: boolean;
+            partitionBy?: string;
+            processBatchHandle: string;
+            processBatchType?: "action" | "mutation";
+            rateLimit?: { itemsPerSecond?: number; requestsPerSecond?: number };
+            reduce?: {
+              fields?: Record<
+                string,
+                "sum" | "max" | "min" | "first" | "last" | "count"
+              >;
+              groupBy?: string;
+              mergeHandle?: string;
+            };
+            retryPolicy?: {
+              initialDelayMs: number;
+              jitter?: number;
+              maxDelayMs?: number;
+              multiplier?: number;
+            };
+          };
+          deadLetterId: string;
+        },
+        any,
+        Name
+      >;
+      resumeBatch: FunctionReference<
+        "mutation",
+        "internal",
+        { baseBatchId: string },
+        any,
+        Name
+      >;
       resumeIteratorJob: FunctionReference<
         "mutation",
         "internal",
@@ -131,11 +305,61 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             maxRetries?: number;
             onCompleteHandle?: string;
             processBatchHandle: string;
+            processBatchType?: "action" | "mutation";
           };
           jobId: string;
         },
         any,
         Name
       >;
+      updateBatchConfig: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          baseBatchId: string;
+          config: {
+            circuitBreaker?: { cooldownMs: number; failureThreshold: number };
+            cumulativeFlushThreshold?: number;
+            debounceMs?: number;
+            dedupeBy?: { keep?: "first" | "last"; key: string };
+            dedupeItemsByKey?: boolean;
+            flushIntervalMs?: number;
+            flushLeaseMs?: number;
+            idempotencyWindowMs?: number;
+            immediateFlushThreshold?: number;
+            includeMetadata?: boolean;
+            itemKey?: string;
+            maxBatchBytes?: number;
+            maxBatchSize?: number;
+            maxConcurrentFlushes?: number;
+            maxFlushAttempts?: number;
+            maxItemsPerFlush?: number;
+            maxWaitMs?: number;
+            onFlushCompleteHandle?: string;
+            onFlushFailedHandle?: string;
+            ordered?: boolean;
+            processBatchHandle?: string;
+            processBatchType?: "action" | "mutation";
+            rateLimit?: { itemsPerSecond?: number; requestsPerSecond?: number };
+            reduce?: {
+              fields?: Record<
+                string,
+                "sum" | "max" | "min" | "first" | "last" | "count"
+              >;
+              groupBy?: string;
+              mergeHandle?: string;
+            };
+            retryPolicy?: {
+              initialDelayMs: number;
+              jitter?: number;
+              maxDelayMs?: number;
+              multiplier?: number;
+            };
+          };
+          unset?: Array<string>;
+        },
+        any,
+        Name
+      >;
     };
   };
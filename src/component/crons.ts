@@ -0,0 +1,9 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Watchdog for batches stuck in "flushing" (executeFlush crashed or timed out)
+crons.interval("recover stuck flushes", { minutes: 1 }, internal.lib.recoverStuckFlushes, {});
+
+export default crons;
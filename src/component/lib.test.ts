@@ -0,0 +1,647 @@
+// @vitest-environment edge-runtime
+import { convexTest } from "convex-test";
+import { v } from "convex/values";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { internalAction } from "./_generated/server";
+import {
+	applyBuiltInReducers,
+	capFlushResult,
+	collapseDuplicateItems,
+	computeRetryDelayMs,
+	crossedCounterShare,
+	getByteSize,
+	getChunkFlushId,
+	getFailedItems,
+	getRateLimitWaitMs,
+	groupItemsByEventTime,
+	isInvalidHandleMessage,
+	refillTokens,
+} from "./lib";
+import schema from "./schema";
+
+// Declare the globals used here for TypeScript (provided by Vitest and the runtime)
+declare global {
+	interface ImportMeta {
+		glob(pattern: string): Record<string, () => Promise<unknown>>;
+	}
+}
+declare const console: {
+	log: (...args: unknown[]) => void;
+	warn: (...args: unknown[]) => void;
+};
+
+// processBatch fixtures, registered as the "fixtures" module of the test deployment
+const delivered: unknown[][] = [];
+const deliveredMetadata: Array<{ flushId: string; attempt: number }> = [];
+const fixtures = {
+	processBatch: internalAction({
+		args: { items: v.array(v.any()) },
+		handler: async (_ctx, { items }) => {
+			delivered.push(items);
+		},
+	}),
+	failingProcessBatch: internalAction({
+		args: { items: v.array(v.any()) },
+		handler: async () => {
+			throw new Error("downstream unavailable");
+		},
+	}),
+	// Fails the first delivery of each chunk
+	flakyProcessBatch: internalAction({
+		args: { items: v.array(v.any()), metadata: v.any() },
+		handler: async (_ctx, { items, metadata }) => {
+			deliveredMetadata.push(metadata);
+			if (metadata.attempt === 1) {
+				throw new Error("first attempt");
+			}
+			delivered.push(items);
+		},
+	}),
+	// Accepts even numbers only
+	evenProcessBatch: internalAction({
+		args: { items: v.array(v.number()) },
+		handler: async (_ctx, { items }) => {
+			delivered.push(items);
+			return {
+				failed: items.flatMap((item, index) => (item % 2 ? [{ index, error: "odd" }] : [])),
+			};
+		},
+	}),
+};
+
+const modules = {
+	...Object.fromEntries(
+		Object.entries(import.meta.glob("./**/*.ts")).filter(([path]) => !path.endsWith(".test.ts")),
+	),
+	"./fixtures.ts": async () => fixtures,
+};
+
+const handle = (name: keyof typeof fixtures) => `function://;fixtures:${name}`;
+
+function setup() {
+	const t = convexTest(schema, modules);
+	return {
+		t,
+		// Runs the scheduled functions that are due, and the ones they schedule right away
+		settle: () => t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(0)),
+		advance: async (ms: number) => {
+			vi.advanceTimersByTime(ms);
+			await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(0));
+		},
+	};
+}
+
+beforeEach(() => {
+	vi.useFakeTimers();
+	vi.spyOn(console, "log").mockImplementation(() => {});
+	vi.spyOn(console, "warn").mockImplementation(() => {});
+	delivered.length = 0;
+	deliveredMetadata.length = 0;
+});
+
+afterEach(() => {
+	vi.restoreAllMocks();
+	vi.useRealTimers();
+});
+
+describe("dead letters", () => {
+	const config = {
+		flushIntervalMs: 1000,
+		immediateFlushThreshold: 2,
+		maxFlushAttempts: 2,
+		processBatchHandle: handle("failingProcessBatch"),
+	};
+
+	test("dead-letters the items once maxFlushAttempts flushes failed", async () => {
+		const { t, settle, advance } = setup();
+		await t.mutation(api.lib.addItems, { batchId: "events", items: [1, 2], config });
+		await settle();
+		expect(await t.query(api.lib.listDeadLetters, {})).toEqual([]);
+
+		// The failed batch is retried by its interval timer
+		await advance(1000);
+		const deadLetters = await t.query(api.lib.listDeadLetters, {});
+		expect(deadLetters).toMatchObject([{ baseBatchId: "events", itemCount: 2, attempts: 2 }]);
+		expect(deadLetters[0].lastErrorMessage).toContain("downstream unavailable");
+	});
+
+	test("replays dead-lettered items with the caller's current config", async () => {
+		const { t, settle, advance } = setup();
+		await t.mutation(api.lib.addItems, { batchId: "events", items: [1, 2], config });
+		await settle();
+		await advance(1000);
+		const [{ deadLetterId }] = await t.query(api.lib.listDeadLetters, {});
+
+		const fixedConfig = { ...config, processBatchHandle: handle("processBatch") };
+		expect(
+			await t.mutation(api.lib.replayDeadLetter, { deadLetterId, config: fixedConfig }),
+		).toEqual({ replayed: true, itemCount: 2 });
+		await settle();
+		expect(delivered).toEqual([[1, 2]]);
+		expect(await t.query(api.lib.listDeadLetters, {})).toEqual([]);
+	});
+});
+
+describe("computeRetryDelayMs", () => {
+	test("grows the delay exponentially up to maxDelayMs", () => {
+		const policy = { initialDelayMs: 1000, multiplier: 3, maxDelayMs: 20000 };
+		expect([1, 2, 3, 4].map((attempt) => computeRetryDelayMs(policy, attempt))).toEqual([
+			1000, 3000, 9000, 20000,
+		]);
+	});
+
+	test("doubles the delay by default", () => {
+		expect(computeRetryDelayMs({ initialDelayMs: 500 }, 3)).toBe(2000);
+	});
+
+	test("subtracts up to `jitter` of the delay", () => {
+		vi.spyOn(Math, "random").mockReturnValue(1);
+		expect(computeRetryDelayMs({ initialDelayMs: 1000, jitter: 0.25 }, 1)).toBe(750);
+		expect(computeRetryDelayMs({ initialDelayMs: 1000, jitter: 5 }, 1)).toBe(0);
+	});
+});
+
+describe("retry backoff", () => {
+	test("retries a failed flush only once its backoff has elapsed", async () => {
+		const { t, settle, advance } = setup();
+		const config = {
+			flushIntervalMs: 60000,
+			immediateFlushThreshold: 1,
+			maxFlushAttempts: 3,
+			retryPolicy: { initialDelayMs: 1000 },
+			processBatchHandle: handle("failingProcessBatch"),
+		};
+		await t.mutation(api.lib.addItems, { batchId: "events", items: [1], config });
+		await settle();
+		const status = await t.query(api.lib.getBatchStatus, { batchId: "events" });
+		expect(status?.batches[0]).toMatchObject({ flushAttempts: 1, nextRetryAt: Date.now() + 1000 });
+
+		// Reaching the threshold again doesn't cut the backoff short
+		await t.mutation(api.lib.addItems, { batchId: "events", items: [2], config });
+		await settle();
+		expect(await t.query(api.lib.getBatchStatus, { batchId: "events" })).toMatchObject({
+			batches: [{ flushAttempts: 1 }],
+		});
+
+		await advance(1000);
+		expect(await t.query(api.lib.getBatchStatus, { batchId: "events" })).toMatchObject({
+			batches: [{ flushAttempts: 2, nextRetryAt: Date.now() + 2000 }],
+		});
+	});
+});
+
+describe("getFailedItems", () => {
+	const items = [{ id: "a" }, { id: "b" }, { id: "c" }];
+
+	test("matches failed items by index or by itemKey", () => {
+		const result = { failed: [{ key: "c", error: "rejected" }, { index: 0 }] };
+		expect(getFailedItems(result, items, "id")).toEqual({
+			failedIndexes: [0, 2],
+			errorMessage: "rejected",
+		});
+	});
+
+	test("ignores entries that match no item", () => {
+		const result = { failed: [{ index: 3 }, { index: 1.5 }, { key: "z" }, { key: "a" }, null] };
+		expect(getFailedItems(result, items, undefined)).toEqual({ failedIndexes: [] });
+	});
+
+	test("treats any other return value as success", () => {
+		for (const result of [undefined, null, "ok", { failed: "all" }, { succeeded: [0] }]) {
+			expect(getFailedItems(result, items, "id")).toEqual({ failedIndexes: [] });
+		}
+	});
+});
+
+describe("partial failures", () => {
+	test("retries only the items that processBatch reported as failed", async () => {
+		const { t, settle, advance } = setup();
+		const config = {
+			flushIntervalMs: 1000,
+			immediateFlushThreshold: 4,
+			processBatchHandle: handle("evenProcessBatch"),
+		};
+		await t.mutation(api.lib.addItems, { batchId: "numbers", items: [1, 2, 3, 4], config });
+		await settle();
+		const [flush] = await t.query(api.lib.getFlushHistory, { batchId: "numbers" });
+		expect(flush).toMatchObject({ success: false, succeededCount: 2, failedCount: 2 });
+
+		await advance(1000);
+		expect(delivered).toEqual([
+			[1, 2, 3, 4],
+			[1, 3],
+		]);
+	});
+});
+
+describe("getByteSize", () => {
+	test("counts the UTF-8 bytes of the JSON encoding", () => {
+		expect(getByteSize(["ab"])).toBe(6);
+		expect(getByteSize("é€😀")).toBe(2 + 2 + 3 + 4);
+		expect(getByteSize(undefined)).toBe(0);
+	});
+
+	test("measures Convex values that JSON can't encode", () => {
+		// Encoded as {"$integer":"AQAAAAAAAAA="}
+		expect(getByteSize(1n)).toBe(27);
+		expect(getByteSize(new ArrayBuffer(3))).toBeGreaterThan(0);
+	});
+});
+
+describe("crossedCounterShare", () => {
+	test("reports each multiple of an eighth of the threshold", () => {
+		// share = 1000 / 8 = 125
+		expect(crossedCounterShare(1000, 0, 124)).toBe(false);
+		expect(crossedCounterShare(1000, 124, 125)).toBe(true);
+		expect(crossedCounterShare(1000, 125, 249)).toBe(false);
+		expect(crossedCounterShare(1000, 200, 600)).toBe(true);
+	});
+
+	test("uses a share of at least 1", () => {
+		expect(crossedCounterShare(3, 0, 1)).toBe(true);
+		expect(crossedCounterShare(3, 1, 2)).toBe(true);
+	});
+
+	test("never reports without a threshold", () => {
+		expect(crossedCounterShare(undefined, 0, 1000)).toBe(false);
+	});
+});
+
+describe("cumulative threshold", () => {
+	test("flushes once enough items arrived across calls", async () => {
+		const { t, settle } = setup();
+		const config = {
+			flushIntervalMs: 60000,
+			cumulativeFlushThreshold: 3,
+			processBatchHandle: handle("processBatch"),
+		};
+		for (const item of [1, 2, 3, 4]) {
+			await t.mutation(api.lib.addItems, { batchId: "events", items: [item], config });
+			await settle();
+		}
+		expect(delivered).toEqual([[1, 2, 3]]);
+	});
+});
+
+describe("idempotency", () => {
+	const config = {
+		flushIntervalMs: 60000,
+		itemKey: "id",
+		dedupeItemsByKey: true,
+		processBatchHandle: handle("processBatch"),
+	};
+
+	test("returns the original result for a repeated idempotency key", async () => {
+		const { t } = setup();
+		const args = { batchId: "events", items: [{ id: "a" }], config, idempotencyKey: "call-1" };
+		const first = await t.mutation(api.lib.addItems, args);
+		expect(await t.mutation(api.lib.addItems, args)).toEqual({ ...first, duplicate: true });
+		expect(await t.query(api.lib.getBatchStatus, { batchId: "events" })).toMatchObject({
+			batches: [{ itemCount: 1 }],
+		});
+	});
+
+	test("skips items whose key was already added", async () => {
+		const { t } = setup();
+		await t.mutation(api.lib.addItems, { batchId: "events", items: [{ id: "a" }], config });
+		const items = [{ id: "a" }, { id: "b" }, { id: "b" }, { name: "no key" }];
+		expect(await t.mutation(api.lib.addItems, { batchId: "events", items, config })).toMatchObject({
+			itemCount: 2,
+			skippedItemCount: 2,
+		});
+	});
+});
+
+describe("collapseDuplicateItems", () => {
+	const items = [
+		{ id: "a", v: 1 },
+		{ id: "b", v: 2 },
+		{ v: 3 },
+		{ id: "a", v: 4 },
+		{ id: 1, v: 5 },
+		{ id: "1", v: 6 },
+	];
+
+	test("keeps the last occurrence by default, in its position", () => {
+		expect(collapseDuplicateItems(items, { key: "id" })).toEqual({
+			items: [{ id: "b", v: 2 }, { v: 3 }, { id: "a", v: 4 }, { id: "1", v: 6 }],
+			sourceIndexes: [1, 2, 3, 5],
+		});
+	});
+
+	test("keeps the first occurrence", () => {
+		expect(collapseDuplicateItems(items, { key: "id", keep: "first" }).sourceIndexes).toEqual([
+			0, 1, 2, 4,
+		]);
+	});
+
+	test("reads dotted key paths", () => {
+		const nested = [{ user: { id: 1 } }, { user: { id: 1 } }, { user: {} }];
+		expect(collapseDuplicateItems(nested, { key: "user.id" }).sourceIndexes).toEqual([1, 2]);
+	});
+});
+
+describe("applyBuiltInReducers", () => {
+	const items = [
+		{ page: "/a", views: 2, at: 1 },
+		{ page: "/b", views: 5, at: 2 },
+		{ page: "/a", views: "n/a", at: 3 },
+		{ page: "/a", views: 7, at: 4 },
+	];
+
+	test("reduces each group of items", () => {
+		const fields = { views: "sum", at: "last", first: "first", n: "count" } as const;
+		expect(applyBuiltInReducers(items, { groupBy: "page", fields })).toEqual([
+			{ page: "/a", views: 9, at: 4, n: 3 },
+			{ page: "/b", views: 5, at: 2, n: 1 },
+		]);
+	});
+
+	test("reduces all items to one value without groupBy", () => {
+		expect(applyBuiltInReducers(items, { fields: { views: "max", at: "min" } })).toEqual([
+			{ views: 7, at: 1 },
+		]);
+	});
+
+	test("keeps groups of equal bigint values together", () => {
+		const counters = [
+			{ id: 1n, n: 1 },
+			{ id: 1n, n: 2 },
+			{ id: 2n, n: 3 },
+		];
+		expect(applyBuiltInReducers(counters, { groupBy: "id", fields: { n: "sum" } })).toEqual([
+			{ id: 1n, n: 3 },
+			{ id: 2n, n: 3 },
+		]);
+	});
+});
+
+describe("groupItemsByEventTime", () => {
+	const window = { timestampField: "ts", windowMs: 1000, allowedLatenessMs: 500 };
+
+	test("groups items into tumbling windows and drops late ones", () => {
+		const items = [{ ts: 2100 }, { ts: 900 }, { ts: 1000 }, { ts: 2999 }, { ts: 1400 }];
+		expect(groupItemsByEventTime(items, window, 2400)).toEqual({
+			groups: [
+				{ window: { windowStart: 2000, windowEnd: 3000 }, items: [{ ts: 2100 }, { ts: 2999 }] },
+				{ window: { windowStart: 1000, windowEnd: 2000 }, items: [{ ts: 1000 }, { ts: 1400 }] },
+			],
+			lateItemCount: 1,
+		});
+	});
+
+	test("closes a window once its allowed lateness has passed", () => {
+		expect(groupItemsByEventTime([{ ts: 1400 }], window, 2499).lateItemCount).toBe(0);
+		expect(groupItemsByEventTime([{ ts: 1400 }], window, 2500).lateItemCount).toBe(1);
+	});
+
+	test("assigns items without a numeric timestamp by arrival time", () => {
+		expect(groupItemsByEventTime([{ ts: "soon" }, {}], window, 5500).groups).toEqual([
+			{ window: { windowStart: 5000, windowEnd: 6000 }, items: [{ ts: "soon" }, {}] },
+		]);
+	});
+});
+
+describe("event-time windows", () => {
+	test("doesn't remember the keys of late items", async () => {
+		const { t } = setup();
+		vi.setSystemTime(100_000);
+		const config = {
+			flushIntervalMs: 60000,
+			itemKey: "id",
+			dedupeItemsByKey: true,
+			eventTimeWindow: { timestampField: "ts", windowMs: 10_000 },
+			processBatchHandle: handle("processBatch"),
+		};
+		const late = { batchId: "events", items: [{ id: "a", ts: 5000 }], config };
+		expect(await t.mutation(api.lib.addItems, late)).toMatchObject({
+			itemCount: 0,
+			lateItemCount: 1,
+		});
+		const onTime = { batchId: "events", items: [{ id: "a", ts: 100_000 }], config };
+		expect(await t.mutation(api.lib.addItems, onTime)).toEqual({
+			batchId: "events",
+			itemCount: 1,
+			flushed: false,
+			status: "accumulating",
+		});
+	});
+});
+
+describe("rate limit token buckets", () => {
+	test("refill continuously up to one second of budget", () => {
+		expect(refillTokens(0, 10, 250)).toBe(2.5);
+		expect(refillTokens(4, 10, 5000)).toBe(10);
+		// New buckets start full; unlimited budgets hold nothing
+		expect(refillTokens(undefined, 10, undefined)).toBe(10);
+		expect(refillTokens(3, undefined, 1000)).toBe(0);
+	});
+
+	test("wait until both the request and the item budgets allow a call", () => {
+		const rateLimit = { requestsPerSecond: 2, itemsPerSecond: 100 };
+		expect(getRateLimitWaitMs(rateLimit, 1, 100, 50)).toBe(0);
+		expect(getRateLimitWaitMs(rateLimit, 0.5, 100, 50)).toBe(250);
+		expect(getRateLimitWaitMs(rateLimit, 1, 20, 50)).toBe(300);
+		expect(getRateLimitWaitMs(rateLimit, 0.5, 20, 50)).toBe(300);
+	});
+
+	test("let a call larger than itemsPerSecond go ahead with a full bucket", () => {
+		expect(getRateLimitWaitMs({ itemsPerSecond: 100 }, 0, 100, 250)).toBe(0);
+		expect(getRateLimitWaitMs({ itemsPerSecond: 100 }, 0, 90, 250)).toBe(100);
+	});
+});
+
+describe("getChunkFlushId", () => {
+	const batch = { batchId: "events::2" } as Doc<"batches">;
+	const doc = (id: string, itemCount: number) =>
+		({ _id: id, items: Array(itemCount).fill(0) }) as unknown as Doc<"batchItems">;
+	const slices = [
+		{ doc: doc("d1", 3), count: 3 },
+		{ doc: doc("d2", 5), count: 2 },
+	];
+
+	test("is stable for the same items", () => {
+		const flushId = getChunkFlushId(batch, slices);
+		expect(flushId).toMatch(/^events::2:[0-9a-f]{16}$/);
+		expect(getChunkFlushId(batch, [...slices])).toBe(flushId);
+	});
+
+	test("changes with the chunk's items", () => {
+		const flushId = getChunkFlushId(batch, slices);
+		expect(getChunkFlushId(batch, [slices[0], { doc: doc("d2", 5), count: 1 }])).not.toBe(flushId);
+		expect(getChunkFlushId(batch, [slices[0], { doc: doc("d2", 4), count: 2 }])).not.toBe(flushId);
+		expect(getChunkFlushId(batch, [slices[0]])).not.toBe(flushId);
+	});
+});
+
+describe("flush metadata", () => {
+	test("retries a failed chunk under the same flushId", async () => {
+		const { t, settle, advance } = setup();
+		const config = {
+			flushIntervalMs: 1000,
+			immediateFlushThreshold: 2,
+			includeMetadata: true,
+			processBatchHandle: handle("flakyProcessBatch"),
+		};
+		await t.mutation(api.lib.addItems, { batchId: "events", items: [1, 2], config });
+		await settle();
+		// Items added meanwhile aren't part of the retried chunk
+		await t.mutation(api.lib.addItems, { batchId: "events", items: [3], config });
+		await advance(1000);
+		expect(delivered).toEqual([[1, 2]]);
+
+		await advance(1000);
+		const [first, retry, next] = deliveredMetadata;
+		expect(retry).toMatchObject({ flushId: first.flushId, attempt: 2 });
+		expect(next).toMatchObject({ attempt: 1 });
+		expect(next.flushId).not.toBe(first.flushId);
+	});
+});
+
+describe("capFlushResult", () => {
+	test("keeps return values up to 8 KB", () => {
+		expect(capFlushResult({ stored: 3 })).toEqual({ result: { stored: 3 } });
+		expect(capFlushResult(undefined)).toEqual({});
+		const large = "x".repeat(8 * 1024 - 2);
+		expect(capFlushResult(large)).toEqual({ result: large });
+	});
+
+	test("omits larger values and values that aren't Convex values", () => {
+		expect(capFlushResult("x".repeat(8 * 1024))).toEqual({ resultOmitted: true });
+		expect(capFlushResult({ at: new Date() })).toEqual({ resultOmitted: true });
+	});
+});
+
+describe("config versions", () => {
+	const config = {
+		flushIntervalMs: 60000,
+		immediateFlushThreshold: 10,
+		processBatchHandle: handle("processBatch"),
+	};
+	const getConfigs = (t: ReturnType<typeof setup>["t"]) =>
+		t.run(async (ctx) =>
+			(await ctx.db.query("batches").collect()).map(({ config }) => config.immediateFlushThreshold),
+		);
+
+	test("leaves pending batches alone without a higher configVersion", async () => {
+		const { t } = setup();
+		await t.mutation(api.lib.addItems, { batchId: "events", items: [1], config });
+		const changed = { ...config, immediateFlushThreshold: 5 };
+		await t.mutation(api.lib.addItems, { batchId: "events", items: [2], config: changed });
+		expect(await getConfigs(t)).toEqual([10]);
+	});
+
+	test("applies a higher configVersion to pending batches, and keeps it for lower ones", async () => {
+		const { t, settle } = setup();
+		await t.mutation(api.lib.addItems, {
+			batchId: "events",
+			items: [1],
+			config: { ...config, configVersion: 1 },
+		});
+		const v2 = { ...config, immediateFlushThreshold: 1, configVersion: 2 };
+		await t.mutation(api.lib.addItems, { batchId: "events", items: [2], config: v2 });
+		await settle();
+		expect(delivered).toEqual([[1, 2]]);
+
+		// A call from the previous deployment gets the version 2 config
+		await t.mutation(api.lib.addItems, {
+			batchId: "events",
+			items: [3],
+			config: { ...config, configVersion: 1 },
+		});
+		await settle();
+		expect(delivered).toEqual([[1, 2], [3]]);
+	});
+
+	test("keeps updateBatchConfig changes until a higher configVersion arrives", async () => {
+		const { t } = setup();
+		const v1 = { ...config, configVersion: 1 };
+		await t.mutation(api.lib.addItems, { batchId: "events", items: [1], config: v1 });
+		await t.mutation(api.lib.updateBatchConfig, {
+			baseBatchId: "events",
+			config: { immediateFlushThreshold: 20 },
+		});
+		await t.mutation(api.lib.addItems, { batchId: "events", items: [2], config: v1 });
+		expect(await getConfigs(t)).toEqual([20]);
+
+		const v2 = { ...config, immediateFlushThreshold: 30, configVersion: 2 };
+		await t.mutation(api.lib.addItems, { batchId: "events", items: [3], config: v2 });
+		expect(await getConfigs(t)).toEqual([30]);
+	});
+});
+
+describe("isInvalidHandleMessage", () => {
+	test("recognizes the errors of calls through unresolvable handles", () => {
+		expect(isInvalidHandleMessage("Invalid function handle: function://;fixtures:gone")).toBe(true);
+		expect(isInvalidHandleMessage(`Couldn't find function "fixtures:gone"`)).toBe(true);
+		expect(isInvalidHandleMessage("Could not find public function for 'fixtures:gone'")).toBe(true);
+		expect(isInvalidHandleMessage("No such function: fixtures:gone")).toBe(true);
+	});
+
+	test("ignores other errors, and errors thrown by the called function", () => {
+		expect(isInvalidHandleMessage("downstream unavailable")).toBe(false);
+		expect(isInvalidHandleMessage("Function execution timed out")).toBe(false);
+		expect(isInvalidHandleMessage("Uncaught Error: invalid function handle in payload")).toBe(false);
+		expect(isInvalidHandleMessage("Uncaught Error: Couldn't find function for user 42")).toBe(false);
+	});
+});
+
+describe("rebindHandle", () => {
+	const oldHandle = "function://;fixtures:renamed";
+	const newHandle = handle("processBatch");
+
+	test("rebinds callbacks of pending batches, stored configs and dead letters", async () => {
+		const { t, settle } = setup();
+		await t.mutation(api.lib.addItems, {
+			batchId: "events",
+			items: [1],
+			config: {
+				flushIntervalMs: 60000,
+				processBatchHandle: handle("processBatch"),
+				onFlushCompleteHandle: oldHandle,
+				configVersion: 1,
+			},
+		});
+		await t.mutation(api.lib.updateBatchConfig, {
+			baseBatchId: "events",
+			config: { onFlushFailedHandle: oldHandle },
+		});
+		await t.mutation(api.lib.addItems, {
+			batchId: "failing",
+			items: [1],
+			config: {
+				flushIntervalMs: 60000,
+				immediateFlushThreshold: 1,
+				maxFlushAttempts: 1,
+				processBatchHandle: handle("failingProcessBatch"),
+				onFlushCompleteHandle: oldHandle,
+			},
+		});
+		await settle();
+
+		expect(await t.mutation(api.lib.rebindHandle, { oldHandle, newHandle })).toEqual({
+			batchCount: 1,
+			jobCount: 0,
+		});
+		const stored = await t.run(async (ctx) => ({
+			batches: await ctx.db
+				.query("batches")
+				.filter((q) => q.eq(q.field("status"), "accumulating"))
+				.collect(),
+			batchConfigs: await ctx.db.query("batchConfigs").collect(),
+			deadLetters: await ctx.db.query("deadLetters").collect(),
+		}));
+		expect(stored.batches).toMatchObject([
+			{ config: { onFlushCompleteHandle: newHandle, onFlushFailedHandle: newHandle } },
+		]);
+		expect(stored.batchConfigs).toMatchObject([
+			{
+				clientConfig: { onFlushCompleteHandle: newHandle },
+				updates: { onFlushFailedHandle: newHandle },
+			},
+		]);
+		expect(stored.deadLetters).toMatchObject([{ config: { onFlushCompleteHandle: newHandle } }]);
+	});
+});
@@ -5,10 +5,23 @@ import {
 	internalMutation,
 	internalQuery,
 } from "./_generated/server";
+import type { ActionCtx, DatabaseReader, MutationCtx } from "./_generated/server";
 import { internal } from "./_generated/api";
-import type { Doc } from "./_generated/dataModel";
-import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { convexToJson, v, type Infer, type Value } from "convex/values";
 import { FunctionHandle } from "convex/server";
+import {
+	batchConfigUpdateValidator,
+	batchConfigValidator,
+	dedupeByValidator,
+	eventTimeWindowValidator,
+	failedChunkValidator,
+	processBatchTypeValidator,
+	rateLimitValidator,
+	reduceValidator,
+	retryPolicyValidator,
+} from "./schema";
+import { getScheduleWindow, type ScheduleWindow } from "./schedule";
 
 // Declare console for TypeScript (available at runtime in Convex)
 declare const console: {
@@ -17,6 +30,1836 @@ declare const console: {
 	warn: (...args: unknown[]) => void;
 };
 
+type BatchConfig = Infer<typeof batchConfigValidator>;
+type RetryPolicy = Infer<typeof retryPolicyValidator>;
+type DedupeBy = Infer<typeof dedupeByValidator>;
+type ReduceConfig = Infer<typeof reduceValidator>;
+type EventTimeWindow = Infer<typeof eventTimeWindowValidator>;
+type RateLimit = Infer<typeof rateLimitValidator>;
+type BatchConfigUpdate = Infer<typeof batchConfigUpdateValidator>;
+type FailedChunk = Infer<typeof failedChunkValidator>;
+
+// Passed to processBatch as `metadata` with includeMetadata
+type FlushMetadata = {
+	flushId: string;
+	batchId: string;
+	baseBatchId: string;
+	sequence: number;
+	partitionKey?: string;
+	chunkIndex: number;
+	attempt: number;
+	firstItemAt: number;
+	lastItemAt: number;
+};
+
+// Arguments of processBatch (window and metadata only when configured)
+type ProcessBatchArgs = {
+	items: unknown[];
+	window?: { start: number; end: number };
+	metadata?: FlushMetadata;
+};
+
+// A chunk of a flush, as delivered to processBatch (see collectFlushChunk)
+type FlushChunk = {
+	items: unknown[];
+	sourceItemCount: number; // Items taken from the batch (before dedupeBy)
+	sourceIndexes?: number[]; // With dedupeBy: index of each item among the source items
+	byteSize: number;
+	flushStartedAt?: number;
+	itemKey?: string;
+	reduce?: ReduceConfig;
+	window?: { start: number; end: number };
+	metadata?: FlushMetadata;
+	rateLimited: boolean;
+	processBatchType?: "action" | "mutation";
+};
+
+// Outcome of delivering a flush chunk (see deliverFlushChunk and deliverChunkToMutation)
+type ChunkDelivery = {
+	failed: boolean;
+	result?: unknown; // processBatch return value
+	errorMessage?: string;
+	failedIndexes?: number[];
+	acknowledged?: boolean;
+	deliveredItemsRemoved?: boolean;
+	invalidHandle?: string; // processBatch or the merge query, if it couldn't be resolved
+};
+
+// Passed to onFlushComplete (and, with the failure fields, to onFlushFailed)
+type FlushCallbackArgs = {
+	flushHistoryId: string;
+	batchId: string;
+	itemCount: number;
+	durationMs: number;
+};
+type FlushFailedCallbackArgs = FlushCallbackArgs & {
+	errorMessage: string;
+	failedCount: number;
+	deadLettered: boolean;
+};
+
+// Which accumulating batch items go to, besides the base batch ID
+type BatchTarget = { partitionKey?: string; window?: ScheduleWindow };
+
+type BatchResult = {
+	batchId: string;
+	itemCount: number;
+	flushed: boolean;
+	status: Doc<"batches">["status"];
+	skippedItemCount?: number;
+	lateItemCount?: number;
+	duplicate?: boolean;
+};
+
+// Number of failed attempts kept on a batch (and its dead letter) for inspection
+const MAX_ATTEMPT_HISTORY = 20;
+
+// Default for how long idempotency keys are remembered
+const DEFAULT_IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Expired idempotency keys deleted per flush
+const IDEMPOTENCY_PURGE_BATCH_SIZE = 100;
+
+// Queued batches examined when a flush slot frees up
+const FLUSH_QUEUE_SCAN_SIZE = 100;
+
+// How long a flush may take before recoverStuckFlushes returns the batch to
+// "accumulating" (actions time out after 10 minutes)
+const DEFAULT_FLUSH_LEASE_MS = 15 * 60 * 1000;
+
+// Shortest lease a flush gets: a processBatch action may run for 10 minutes (the action
+// time limit), plus the time to start it and record its result, and a lease expiring while
+// it still runs would deliver its chunk again
+const MIN_FLUSH_LEASE_MS = 12 * 60 * 1000;
+
+// Stuck flushes recovered per recoverStuckFlushes run
+const RECOVERY_BATCH_SIZE = 50;
+
+// Largest processBatch return value (serialized) stored in the flush history
+const MAX_FLUSH_RESULT_BYTES = 8 * 1024;
+
+// Errors of calls through function handles that can't be resolved (see isInvalidHandleMessage)
+const INVALID_HANDLE_ERROR =
+	/function handle|could(?:n't| not) find (?:public |internal )?function|no such function/i;
+
+// Errors thrown by the called function itself, which reach the caller as "Uncaught ..."
+const FUNCTION_ERROR = /\bUncaught\b/;
+
+// Config fields that determine when a batch's timer fires
+const TIMER_CONFIG_FIELDS = [
+	"flushIntervalMs",
+	"debounceMs",
+	"maxWaitMs",
+	"flushSchedule",
+	"eventTimeWindow",
+] as const;
+
+// Config fields that determine when a batch reaches its flush threshold
+const THRESHOLD_CONFIG_FIELDS = [
+	"immediateFlushThreshold",
+	"maxBatchSize",
+	"cumulativeFlushThreshold",
+	"maxBatchBytes",
+] as const;
+
+// Config fields that updateBatchConfig can remove: the optional fields it accepts
+const UNSETTABLE_CONFIG_FIELDS: ReadonlySet<string> = new Set(
+	Object.entries(batchConfigValidator.fields)
+		.filter(([, validator]) => validator.isOptional === "optional")
+		.map(([field]) => field)
+		.filter((field) => field in batchConfigUpdateValidator.fields)
+);
+
+// Number of counter shards per batch for cumulative thresholds
+const COUNTER_SHARDS = 8;
+
+// Retry policy defaults (used when the policy omits them)
+const DEFAULT_RETRY_MULTIPLIER = 2;
+const DEFAULT_RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// Batch Accumulator - Shared Helpers
+// ============================================================================
+
+/**
+ * Finds the accumulating batch for a base ID, creating it (and its interval timer)
+ * if none exists. New batches get the resolved config (see resolveBatchConfig), and a
+ * client config with a newer configVersion than the batch's is applied first. Used by
+ * addItems and by dead-letter replay.
+ */
+async function getOrCreateAccumulatingBatch(
+	ctx: MutationCtx,
+	baseBatchId: string,
+	config: BatchConfig,
+	now: number,
+	target: BatchTarget = {}
+): Promise<Doc<"batches">> {
+	// A batch can be bound to a window: its schedule window (with flushSchedule) or the
+	// event-time window of its items. Batches of other windows that are still accumulating
+	// (e.g. their flush is queued) aren't reused.
+	const { partitionKey } = target;
+	const window =
+		target.window ??
+		(config.flushSchedule ? getScheduleWindow(config.flushSchedule, now) : undefined);
+	const accumulatingBatches = ctx.db
+		.query("batches")
+		.withIndex("by_baseBatchId_partitionKey_status", (q) =>
+			q
+				.eq("baseBatchId", baseBatchId)
+				.eq("partitionKey", partitionKey)
+				.eq("status", "accumulating")
+		);
+	// In ordered mode items go to the newest sequence, so they are delivered after the
+	// items of older sequences that are still accumulating (e.g. after a failed flush)
+	const batch = window
+		? (await accumulatingBatches.collect()).find(
+				(b) => b.windowStart === window.windowStart && b.windowEnd === window.windowEnd
+			)
+		: await accumulatingBatches.order(config.ordered ? "desc" : "asc").first();
+	if (batch) {
+		if (isNewerConfig(config, batch.config.configVersion)) {
+			await resolveBatchConfig(ctx, baseBatchId, config);
+			return (await ctx.db.get(batch._id))!;
+		}
+		return batch;
+	}
+
+	// Find highest sequence number for this base ID
+	const latestBatch = await ctx.db
+		.query("batches")
+		.withIndex("by_baseBatchId_sequence", (q) => q.eq("baseBatchId", baseBatchId))
+		.order("desc")
+		.first();
+
+	const nextSequence = latestBatch ? latestBatch.sequence + 1 : 0;
+	const newBatchId = `${baseBatchId}::${nextSequence}`;
+
+	const batchDocId = await ctx.db.insert("batches", {
+		batchId: newBatchId,
+		baseBatchId,
+		sequence: nextSequence,
+		createdAt: now,
+		lastUpdatedAt: now,
+		status: "accumulating",
+		config: await resolveBatchConfig(ctx, baseBatchId, config),
+		...window,
+		...(partitionKey !== undefined ? { partitionKey } : {}),
+	});
+	const newBatch = (await ctx.db.get(batchDocId))!;
+
+	// Schedule timer at creation (not on every add)
+	const scheduledFlushId = await scheduleFlushTimer(ctx, newBatch);
+	if (scheduledFlushId) {
+		await ctx.db.patch(batchDocId, { scheduledFlushId });
+		return { ...newBatch, scheduledFlushId };
+	}
+	return newBatch;
+}
+
+/**
+ * Schedules the time-based flush of a batch: at the end of its schedule window (with
+ * flushSchedule), when its event-time window closes, after flushIntervalMs, or in
+ * debounce mode after debounceMs (the timer then waits for a quiet period, see
+ * doFlushTransition). Returns undefined if the batch has no timer. Interval and debounce
+ * timers run from startedAt if given (when a timer is restarted), otherwise from now.
+ */
+async function scheduleFlushTimer(
+	ctx: MutationCtx,
+	batch: Doc<"batches">,
+	startedAt?: number
+): Promise<Id<"_scheduled_functions"> | undefined> {
+	const { config } = batch;
+	const timerArgs = { batchDocId: batch._id, force: true, timer: true };
+
+	if (config.flushSchedule) {
+		// Once the window has ended (e.g. retrying a failed flush), wait for the next boundary
+		const now = Date.now();
+		const flushAt =
+			batch.windowEnd !== undefined && batch.windowEnd > now
+				? batch.windowEnd
+				: getScheduleWindow(config.flushSchedule, now).windowEnd;
+		return await ctx.scheduler.runAt(flushAt, internal.lib.maybeFlush, timerArgs);
+	}
+
+	if (config.eventTimeWindow && batch.windowEnd !== undefined) {
+		// Once closed (e.g. retrying a failed flush), the interval timer applies instead
+		const closesAt = batch.windowEnd + (config.eventTimeWindow.allowedLatenessMs ?? 0);
+		if (closesAt > Date.now()) {
+			return await ctx.scheduler.runAt(closesAt, internal.lib.maybeFlush, timerArgs);
+		}
+	}
+
+	const delayMs = config.debounceMs ?? config.flushIntervalMs;
+	if (!(delayMs > 0)) {
+		return undefined;
+	}
+	const elapsedMs = startedAt !== undefined ? Date.now() - startedAt : 0;
+	return await ctx.scheduler.runAfter(
+		Math.max(delayMs - elapsedMs, 0),
+		internal.lib.maybeFlush,
+		timerArgs
+	);
+}
+
+/**
+ * Serializes a value with sorted object keys, so equal configs compare equal regardless
+ * of their field order.
+ */
+function stableStringify(value: unknown): string {
+	return (
+		JSON.stringify(value, (_key, nested: unknown) =>
+			nested !== null && typeof nested === "object" && !Array.isArray(nested)
+				? Object.fromEntries(
+						Object.entries(nested).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+					)
+				: nested
+		) ?? ""
+	);
+}
+
+function configFieldsChanged(
+	current: BatchConfig,
+	next: BatchConfig,
+	fields: ReadonlyArray<keyof BatchConfig>
+): boolean {
+	return fields.some((field) => stableStringify(current[field]) !== stableStringify(next[field]));
+}
+
+/**
+ * A config with the changes of updateBatchConfig: `updates` replace its fields, and the
+ * fields listed in `unsetFields` are removed.
+ */
+function withConfigUpdates(
+	config: BatchConfig,
+	updates: BatchConfigUpdate | undefined,
+	unsetFields: string[] | undefined
+): BatchConfig {
+	const updated: Record<string, unknown> = { ...config, ...updates };
+	for (const field of unsetFields ?? []) {
+		delete updated[field];
+	}
+	return updated as BatchConfig;
+}
+
+async function getBatchConfigState(
+	db: DatabaseReader,
+	baseBatchId: string
+): Promise<Doc<"batchConfigs"> | null> {
+	return await db
+		.query("batchConfigs")
+		.withIndex("by_baseBatchId", (q) => q.eq("baseBatchId", baseBatchId))
+		.first();
+}
+
+/**
+ * Whether a client config has a newer configVersion than `version`. Unversioned configs
+ * are never newer, so config drift is only reconciled when the client opts in.
+ */
+function isNewerConfig(config: BatchConfig, version: number | undefined): boolean {
+	return (
+		config.configVersion !== undefined && (version === undefined || config.configVersion > version)
+	);
+}
+
+/**
+ * The config of a new batch, or of all active batches once a client config with a newer
+ * configVersion arrives: the client's config with the changes made by updateBatchConfig.
+ * A newer version is stored and applied to the active batches of the base ID, and
+ * replaces the changes made under the previous version. Clients with an older version
+ * (e.g. a deployment that is still rolling out) get the stored config, so they don't
+ * revert it. Only called when a batch is created or a newer version is seen, not on every
+ * addItems.
+ */
+async function resolveBatchConfig(
+	ctx: MutationCtx,
+	baseBatchId: string,
+	clientConfig: BatchConfig
+): Promise<BatchConfig> {
+	const state = await getBatchConfigState(ctx.db, baseBatchId);
+	const storedVersion = state?.clientConfig?.configVersion;
+	if (!isNewerConfig(clientConfig, storedVersion)) {
+		const config =
+			state?.clientConfig !== undefined && storedVersion !== clientConfig.configVersion
+				? state.clientConfig
+				: clientConfig;
+		return withConfigUpdates(config, state?.updates, state?.unsetFields);
+	}
+
+	// Changes made before the first versioned config are kept
+	const updates = storedVersion === undefined ? state?.updates : undefined;
+	const unsetFields = storedVersion === undefined ? state?.unsetFields : undefined;
+	if (state) {
+		await ctx.db.patch(state._id, { clientConfig, updates, unsetFields });
+	} else {
+		await ctx.db.insert("batchConfigs", { baseBatchId, clientConfig });
+	}
+	const config = withConfigUpdates(clientConfig, updates, unsetFields);
+	await applyBatchConfig(ctx, baseBatchId, () => config);
+	return config;
+}
+
+/**
+ * Replaces the config of the active (accumulating and flushing) batches of a base batch
+ * ID with getConfig(current config), and reconciles accumulating batches with it: their
+ * timer is restarted if timing fields changed (counting from the batch's creation, or
+ * from now after failed flushes), and a flush check is scheduled if thresholds changed.
+ * Paused batches and batches waiting for a retry, a flush slot, the circuit breaker or
+ * an older sequence aren't rescheduled; the new config applies once they are woken.
+ * Returns the number of batches whose config changed.
+ */
+async function applyBatchConfig(
+	ctx: MutationCtx,
+	baseBatchId: string,
+	getConfig: (current: BatchConfig) => BatchConfig
+): Promise<number> {
+	const now = Date.now();
+	const paused = (await getPause(ctx.db, baseBatchId)) !== null;
+	let updatedCount = 0;
+
+	for (const status of ["accumulating", "flushing"] as const) {
+		const batches = await ctx.db
+			.query("batches")
+			.withIndex("by_baseBatchId_status", (q) =>
+				q.eq("baseBatchId", baseBatchId).eq("status", status)
+			)
+			.collect();
+		for (const batch of batches) {
+			const config = getConfig(batch.config);
+			if (stableStringify(config) === stableStringify(batch.config)) {
+				continue;
+			}
+			updatedCount++;
+			await ctx.db.patch(batch._id, { config, lastUpdatedAt: now });
+			// A flushing batch picks up the new config when its result is recorded
+			if (status === "flushing" || paused) {
+				continue;
+			}
+
+			const waiting =
+				batch.nextRetryAt !== undefined ||
+				batch.flushQueuedAt !== undefined ||
+				batch.circuitBlockedAt !== undefined ||
+				batch.orderBlockedAt !== undefined;
+			if (!waiting && configFieldsChanged(batch.config, config, TIMER_CONFIG_FIELDS)) {
+				if (batch.scheduledFlushId) {
+					await ctx.scheduler.cancel(batch.scheduledFlushId);
+				}
+				const timerStartedAt = batch.flushAttempts ? now : batch.createdAt;
+				const scheduledFlushId = await scheduleFlushTimer(ctx, { ...batch, config }, timerStartedAt);
+				await ctx.db.patch(batch._id, { scheduledFlushId });
+			}
+			if (configFieldsChanged(batch.config, config, THRESHOLD_CONFIG_FIELDS)) {
+				// The batch may already be over its new threshold
+				await ctx.scheduler.runAfter(0, internal.lib.maybeFlush, { batchDocId: batch._id });
+			}
+		}
+	}
+	return updatedCount;
+}
+
+/**
+ * Splits items into partitions by the value of their partitionBy field. Items without
+ * the field share the batch without a partition key.
+ */
+function groupItemsByPartition(
+	items: unknown[],
+	partitionBy: string
+): Array<{ partitionKey?: string; items: unknown[] }> {
+	const groups = new Map<string | undefined, { partitionKey?: string; items: unknown[] }>();
+	for (const item of items) {
+		const value = getItemField(item, partitionBy);
+		const partitionKey = value === undefined ? undefined : String(value);
+		let group = groups.get(partitionKey);
+		if (!group) {
+			group = { partitionKey, items: [] };
+			groups.set(partitionKey, group);
+		}
+		group.items.push(item);
+	}
+	return [...groups.values()];
+}
+
+/**
+ * Splits items into tumbling event-time windows by their timestamp field. Items without a
+ * numeric timestamp are assigned by arrival time. Items whose window has closed
+ * (windowEnd + allowedLatenessMs has passed) are dropped and counted as late.
+ */
+export function groupItemsByEventTime(
+	items: unknown[],
+	eventTimeWindow: EventTimeWindow,
+	now: number
+): { groups: Array<{ window: ScheduleWindow; items: unknown[] }>; lateItemCount: number } {
+	const { timestampField, windowMs, allowedLatenessMs = 0 } = eventTimeWindow;
+	const groups = new Map<number, { window: ScheduleWindow; items: unknown[] }>();
+	let lateItemCount = 0;
+
+	for (const item of items) {
+		const timestamp = getItemField(item, timestampField);
+		const eventTime = typeof timestamp === "number" ? timestamp : now;
+		const windowStart = Math.floor(eventTime / windowMs) * windowMs;
+		const windowEnd = windowStart + windowMs;
+		if (windowEnd + allowedLatenessMs <= now) {
+			lateItemCount++;
+			continue;
+		}
+
+		let group = groups.get(windowStart);
+		if (!group) {
+			group = { window: { windowStart, windowEnd }, items: [] };
+			groups.set(windowStart, group);
+		}
+		group.items.push(item);
+	}
+
+	return { groups: [...groups.values()], lateItemCount };
+}
+
+/**
+ * Routes the items of an addItems call to their batches: one per partition (with
+ * partitionBy) and, within it, one per event-time window (with eventTimeWindow).
+ */
+function routeItems(
+	items: unknown[],
+	config: BatchConfig,
+	now: number
+): { groups: Array<BatchTarget & { items: unknown[] }>; lateItemCount: number } {
+	const partitions = config.partitionBy
+		? groupItemsByPartition(items, config.partitionBy)
+		: [{ partitionKey: undefined, items }];
+	if (!config.eventTimeWindow) {
+		return { groups: partitions, lateItemCount: 0 };
+	}
+
+	const groups: Array<BatchTarget & { items: unknown[] }> = [];
+	let lateItemCount = 0;
+	for (const { partitionKey, items: partitionItems } of partitions) {
+		const windows = groupItemsByEventTime(partitionItems, config.eventTimeWindow, now);
+		for (const { window, items: windowItems } of windows.groups) {
+			groups.push({ partitionKey, window, items: windowItems });
+		}
+		lateItemCount += windows.lateItemCount;
+	}
+	return { groups, lateItemCount };
+}
+
+/**
+ * Delay before retrying a failed flush: initialDelayMs * multiplier^(attempt - 1),
+ * capped at maxDelayMs, with up to `jitter` of the delay randomly subtracted.
+ */
+export function computeRetryDelayMs(policy: RetryPolicy, attempt: number): number {
+	const multiplier = policy.multiplier ?? DEFAULT_RETRY_MULTIPLIER;
+	const maxDelayMs = policy.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+	const delayMs = Math.min(policy.initialDelayMs * Math.pow(multiplier, attempt - 1), maxDelayMs);
+	const jitter = Math.min(Math.max(policy.jitter ?? 0, 0), 1);
+	return Math.round(delayMs * (1 - jitter * Math.random()));
+}
+
+/**
+ * Serialized size of a value in bytes (UTF-8 length of its Convex JSON encoding, so
+ * bigints and ArrayBuffers are measured too). This is an approximation of the Convex
+ * document size that is stable across runtimes.
+ */
+export function getByteSize(value: unknown): number {
+	const json = value === undefined ? "" : JSON.stringify(convexToJson(value as Value));
+	let bytes = 0;
+	for (let i = 0; i < json.length; i++) {
+		const code = json.charCodeAt(i);
+		if (code < 0x80) {
+			bytes += 1;
+		} else if (code < 0x800) {
+			bytes += 2;
+		} else if (code >= 0xd800 && code <= 0xdbff) {
+			// Surrogate pair: one 4-byte code point
+			bytes += 4;
+			i++;
+		} else {
+			bytes += 3;
+		}
+	}
+	return bytes;
+}
+
+/**
+ * Caps a processBatch return value for the flush history: values over
+ * MAX_FLUSH_RESULT_BYTES, or that can't be measured, are omitted and flagged instead.
+ */
+export function capFlushResult(result: unknown): { result?: unknown; resultOmitted?: boolean } {
+	if (result === undefined) {
+		return {};
+	}
+	let byteSize: number;
+	try {
+		byteSize = getByteSize(result);
+	} catch {
+		// Not a Convex value; the chunks were delivered, so the flush is recorded anyway
+		return { resultOmitted: true };
+	}
+	if (byteSize > MAX_FLUSH_RESULT_BYTES) {
+		return { resultOmitted: true };
+	}
+	return { result };
+}
+
+/** The lease of a flush (flushLeaseMs), which is never shorter than MIN_FLUSH_LEASE_MS. */
+function getFlushLeaseMs(config: BatchConfig): number {
+	return Math.max(config.flushLeaseMs ?? DEFAULT_FLUSH_LEASE_MS, MIN_FLUSH_LEASE_MS);
+}
+
+// Documents without a recorded byte size (written before sizes were recorded, or without
+// maxBatchBytes) are measured on demand
+function getDocByteSize(doc: Doc<"batchItems">): number {
+	return doc.byteSize ?? getByteSize(doc.items);
+}
+
+/**
+ * Whether pending items reach the configured size thresholds (item count and/or bytes).
+ * Without any threshold, a batch is always ready to flush.
+ */
+function isAtFlushThreshold(config: BatchConfig, itemCount: number, byteSize: number): boolean {
+	const threshold = config.immediateFlushThreshold ?? config.maxBatchSize;
+	const { cumulativeFlushThreshold, maxBatchBytes } = config;
+	if (
+		threshold === undefined &&
+		cumulativeFlushThreshold === undefined &&
+		maxBatchBytes === undefined
+	) {
+		return true;
+	}
+	return (
+		(threshold !== undefined && itemCount >= threshold) ||
+		(cumulativeFlushThreshold !== undefined && itemCount >= cumulativeFlushThreshold) ||
+		(maxBatchBytes !== undefined && byteSize >= maxBatchBytes)
+	);
+}
+
+/**
+ * Adds to one randomly chosen counter shard of a batch and reports whether that shard
+ * crossed a multiple of its share (threshold / COUNTER_SHARDS) of a cumulative threshold.
+ *
+ * Each call reads and writes a single shard, so concurrent addItems only conflict when
+ * they pick the same shard. The flush check counts the real total. When shards fill
+ * evenly, the last one crosses its share once the batch holds `threshold` items, so the
+ * flush fires right after the threshold. A check that finds the batch below the threshold
+ * (its shard filled faster) isn't repeated until a shard crosses its next multiple,
+ * though: in the worst case the batch reaches about threshold + COUNTER_SHARDS * share,
+ * i.e. twice the threshold, before a flush is triggered.
+ */
+async function incrementCounterShard(
+	ctx: MutationCtx,
+	batch: Doc<"batches">,
+	itemCount: number,
+	byteSize: number
+): Promise<boolean> {
+	const shard = Math.floor(Math.random() * COUNTER_SHARDS);
+	const counter = await ctx.db
+		.query("batchCounters")
+		.withIndex("by_batchDocId_shard", (q) => q.eq("batchDocId", batch._id).eq("shard", shard))
+		.first();
+
+	const before = { itemCount: counter?.itemCount ?? 0, byteSize: counter?.byteSize ?? 0 };
+	const after = { itemCount: before.itemCount + itemCount, byteSize: before.byteSize + byteSize };
+	if (counter) {
+		await ctx.db.patch(counter._id, after);
+	} else {
+		await ctx.db.insert("batchCounters", { batchDocId: batch._id, shard, ...after });
+	}
+
+	return (
+		crossedCounterShare(batch.config.cumulativeFlushThreshold, before.itemCount, after.itemCount) ||
+		crossedCounterShare(batch.config.maxBatchBytes, before.byteSize, after.byteSize)
+	);
+}
+
+// Whether a shard going from `from` to `to` crossed a multiple of its share of threshold
+export function crossedCounterShare(
+	threshold: number | undefined,
+	from: number,
+	to: number
+): boolean {
+	if (threshold === undefined) return false;
+	const share = Math.max(1, Math.ceil(threshold / COUNTER_SHARDS));
+	return Math.floor(to / share) > Math.floor(from / share);
+}
+
+/**
+ * Looks up an unexpired idempotency key. Expired keys are treated as absent (they are
+ * deleted lazily by purgeExpiredIdempotencyKeys).
+ */
+async function getIdempotencyKey(
+	ctx: MutationCtx,
+	baseBatchId: string,
+	key: string,
+	now: number
+): Promise<Doc<"idempotencyKeys"> | null> {
+	const record = await ctx.db
+		.query("idempotencyKeys")
+		.withIndex("by_baseBatchId_key", (q) => q.eq("baseBatchId", baseBatchId).eq("key", key))
+		.first();
+	return record && record.expiresAt > now ? record : null;
+}
+
+async function rememberIdempotencyKey(
+	ctx: MutationCtx,
+	baseBatchId: string,
+	key: string,
+	expiresAt: number,
+	result?: unknown
+): Promise<void> {
+	const existing = await ctx.db
+		.query("idempotencyKeys")
+		.withIndex("by_baseBatchId_key", (q) => q.eq("baseBatchId", baseBatchId).eq("key", key))
+		.first();
+	if (existing) {
+		await ctx.db.patch(existing._id, { result, expiresAt });
+	} else {
+		await ctx.db.insert("idempotencyKeys", { baseBatchId, key, result, expiresAt });
+	}
+}
+
+async function purgeExpiredIdempotencyKeys(ctx: MutationCtx, now: number): Promise<void> {
+	const expired = await ctx.db
+		.query("idempotencyKeys")
+		.withIndex("by_expiresAt", (q) => q.lt("expiresAt", now))
+		.take(IDEMPOTENCY_PURGE_BATCH_SIZE);
+	for (const record of expired) {
+		await ctx.db.delete(record._id);
+	}
+}
+
+/**
+ * Whether a batch with this config may start flushing under the concurrency limits: the
+ * component-wide limit (see configure) and the per-processor maxConcurrentFlushes.
+ */
+async function hasFreeFlushSlot(
+	db: DatabaseReader,
+	globalLimit: number | undefined,
+	config: BatchConfig
+): Promise<boolean> {
+	if (globalLimit !== undefined) {
+		const flushing = await db
+			.query("batches")
+			.withIndex("by_status", (q) => q.eq("status", "flushing"))
+			.take(globalLimit);
+		if (flushing.length >= globalLimit) {
+			return false;
+		}
+	}
+	const processorLimit = config.maxConcurrentFlushes;
+	if (processorLimit !== undefined) {
+		const flushing = await db
+			.query("batches")
+			.withIndex("by_status_processBatchHandle", (q) =>
+				q.eq("status", "flushing").eq("config.processBatchHandle", config.processBatchHandle)
+			)
+			.take(processorLimit);
+		if (flushing.length >= processorLimit) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * Schedules the flush of queued batches (waiting for a flush slot) that now have a free
+ * slot, longest-waiting first. Called whenever a flush ends.
+ */
+async function wakeQueuedFlushes(ctx: MutationCtx): Promise<void> {
+	const queued = await ctx.db
+		.query("batches")
+		.withIndex("by_flushQueuedAt", (q) => q.gt("flushQueuedAt", 0))
+		.take(FLUSH_QUEUE_SCAN_SIZE);
+	if (queued.length === 0) {
+		return;
+	}
+
+	const globalConfig = await ctx.db.query("globalConfig").first();
+	// Free slots out of `limit`; counting stops once all of them are taken
+	const countFreeSlots = async (limit: number, handle?: string) => {
+		const flushing = ctx.db.query("batches");
+		const batches =
+			handle === undefined
+				? flushing.withIndex("by_status", (q) => q.eq("status", "flushing"))
+				: flushing.withIndex("by_status_processBatchHandle", (q) =>
+						q.eq("status", "flushing").eq("config.processBatchHandle", handle)
+					);
+		return limit - (await batches.take(limit)).length;
+	};
+
+	// Free slots, decremented as batches are woken (they only start flushing later)
+	let globalFree =
+		globalConfig?.maxConcurrentFlushes !== undefined
+			? await countFreeSlots(globalConfig.maxConcurrentFlushes)
+			: Number.POSITIVE_INFINITY;
+	const processorFree = new Map<string, number>();
+
+	for (const batch of queued) {
+		if (globalFree <= 0) break;
+		// Batches blocked by the circuit breaker or an older sequence are woken by those instead
+		if (batch.circuitBlockedAt !== undefined || batch.orderBlockedAt !== undefined) continue;
+		const { processBatchHandle, maxConcurrentFlushes } = batch.config;
+		let free = processorFree.get(processBatchHandle);
+		if (free === undefined) {
+			free =
+				maxConcurrentFlushes !== undefined
+					? await countFreeSlots(maxConcurrentFlushes, processBatchHandle)
+					: Number.POSITIVE_INFINITY;
+		}
+		if (free <= 0) {
+			processorFree.set(processBatchHandle, free);
+			continue;
+		}
+
+		await ctx.scheduler.runAfter(0, internal.lib.maybeFlush, {
+			batchDocId: batch._id,
+			force: true,
+		});
+		processorFree.set(processBatchHandle, free - 1);
+		globalFree--;
+	}
+}
+
+/**
+ * Returns the current rateLimit budget of a processBatch. Each bucket holds one second
+ * of budget and refills continuously; a processBatch without a bucket yet has a full one.
+ */
+async function getRateLimitBudget(
+	db: DatabaseReader,
+	processBatchHandle: string,
+	rateLimit: RateLimit,
+	now: number
+): Promise<{ bucket: Doc<"rateLimits"> | null; requestTokens: number; itemTokens: number }> {
+	const bucket = await db
+		.query("rateLimits")
+		.withIndex("by_processBatchHandle", (q) => q.eq("processBatchHandle", processBatchHandle))
+		.first();
+	const elapsedMs = bucket ? now - bucket.updatedAt : undefined;
+	return {
+		bucket,
+		requestTokens: refillTokens(bucket?.requestTokens, rateLimit.requestsPerSecond, elapsedMs),
+		itemTokens: refillTokens(bucket?.itemTokens, rateLimit.itemsPerSecond, elapsedMs),
+	};
+}
+
+// Tokens in a bucket of perSecond tokens that last held `tokens` elapsedMs ago
+export function refillTokens(
+	tokens: number | undefined,
+	perSecond: number | undefined,
+	elapsedMs: number | undefined
+): number {
+	if (perSecond === undefined) return 0;
+	if (tokens === undefined || elapsedMs === undefined) return perSecond;
+	return Math.min(perSecond, tokens + (elapsedMs / 1000) * perSecond);
+}
+
+/**
+ * How long (ms) until the budget allows one processBatch call delivering `itemCount`
+ * items, or 0 if it does now. A call with more items than itemsPerSecond may go ahead
+ * once the item bucket is full.
+ */
+export function getRateLimitWaitMs(
+	rateLimit: RateLimit,
+	requestTokens: number,
+	itemTokens: number,
+	itemCount: number
+): number {
+	let waitMs = 0;
+	if (rateLimit.requestsPerSecond !== undefined && requestTokens < 1) {
+		waitMs = ((1 - requestTokens) / rateLimit.requestsPerSecond) * 1000;
+	}
+	if (rateLimit.itemsPerSecond !== undefined) {
+		const needed = Math.min(itemCount, rateLimit.itemsPerSecond);
+		if (itemTokens < needed) {
+			waitMs = Math.max(waitMs, ((needed - itemTokens) / rateLimit.itemsPerSecond) * 1000);
+		}
+	}
+	return Math.ceil(waitMs);
+}
+
+/**
+ * Takes the rateLimit tokens for one processBatch call delivering `itemCount` items.
+ * Returns 0 if they were taken, otherwise how long (ms) until they are available.
+ */
+async function takeRateLimitTokens(
+	ctx: MutationCtx,
+	processBatchHandle: string,
+	rateLimit: RateLimit,
+	itemCount: number
+): Promise<number> {
+	const now = Date.now();
+	const { bucket, requestTokens, itemTokens } = await getRateLimitBudget(
+		ctx.db,
+		processBatchHandle,
+		rateLimit,
+		now
+	);
+
+	const waitMs = getRateLimitWaitMs(rateLimit, requestTokens, itemTokens, itemCount);
+	if (waitMs > 0) {
+		return waitMs;
+	}
+
+	const tokens = {
+		requestTokens: requestTokens - 1,
+		itemTokens: itemTokens - itemCount,
+		updatedAt: now,
+	};
+	if (bucket) {
+		await ctx.db.patch(bucket._id, tokens);
+	} else {
+		await ctx.db.insert("rateLimits", { processBatchHandle, ...tokens });
+	}
+	return 0;
+}
+
+/**
+ * Ordered mode: whether an older sequence of the batch's base batch ID (and partition) is
+ * still flushing or waiting to be delivered, in which case the batch has to wait.
+ */
+async function hasOlderPendingSequence(db: DatabaseReader, batch: Doc<"batches">): Promise<boolean> {
+	const sameStream = (status: "accumulating" | "flushing" | "handle_invalid") =>
+		db
+			.query("batches")
+			.withIndex("by_baseBatchId_partitionKey_status", (q) =>
+				q
+					.eq("baseBatchId", batch.baseBatchId)
+					.eq("partitionKey", batch.partitionKey)
+					.eq("status", status)
+			);
+	// A batch waiting for rebindHandle still has to be delivered first
+	if (
+		(await sameStream("flushing").first()) !== null ||
+		(await sameStream("handle_invalid").first()) !== null
+	) {
+		return true;
+	}
+	const accumulating = await sameStream("accumulating").collect();
+	return accumulating.some((other) => other.sequence < batch.sequence);
+}
+
+/**
+ * Ordered mode: schedules the flush of the oldest sequence waiting for a completed batch's
+ * base batch ID (and partition).
+ */
+async function wakeNextOrderedFlush(ctx: MutationCtx, batch: Doc<"batches">): Promise<void> {
+	const accumulating = await ctx.db
+		.query("batches")
+		.withIndex("by_baseBatchId_partitionKey_status", (q) =>
+			q
+				.eq("baseBatchId", batch.baseBatchId)
+				.eq("partitionKey", batch.partitionKey)
+				.eq("status", "accumulating")
+		)
+		.collect();
+	const next = accumulating
+		.filter((other) => other.orderBlockedAt !== undefined)
+		.sort((a, b) => a.sequence - b.sequence)[0];
+	if (next) {
+		await ctx.scheduler.runAfter(0, internal.lib.maybeFlush, { batchDocId: next._id, force: true });
+	}
+}
+
+async function getPause(
+	db: DatabaseReader,
+	baseBatchId: string
+): Promise<Doc<"pausedBatches"> | null> {
+	return await db
+		.query("pausedBatches")
+		.withIndex("by_baseBatchId", (q) => q.eq("baseBatchId", baseBatchId))
+		.first();
+}
+
+async function getCircuitBreaker(
+	db: DatabaseReader,
+	processBatchHandle: string
+): Promise<Doc<"circuitBreakers"> | null> {
+	return await db
+		.query("circuitBreakers")
+		.withIndex("by_processBatchHandle", (q) => q.eq("processBatchHandle", processBatchHandle))
+		.first();
+}
+
+/**
+ * Whether a batch may start flushing under its circuitBreaker. While the breaker is open,
+ * flushes wait until `retryAt` (the end of the cool-down). After it the breaker half-opens:
+ * the first batch to flush becomes the probe, and the others wait for its result.
+ */
+async function checkCircuitBreaker(
+	ctx: MutationCtx,
+	batch: Doc<"batches">,
+	now: number
+): Promise<{ allowed: boolean; retryAt?: number }> {
+	const breaker = await getCircuitBreaker(ctx.db, batch.config.processBatchHandle);
+	if (!breaker || breaker.state === "closed") {
+		return { allowed: true };
+	}
+	if (breaker.state === "open") {
+		if (breaker.reopensAt !== undefined && now < breaker.reopensAt) {
+			return { allowed: false, retryAt: breaker.reopensAt };
+		}
+	} else if (breaker.probeBatchDocId && breaker.probeBatchDocId !== batch._id) {
+		// A probe that is no longer flushing never got to record a result; replace it
+		const probe = await ctx.db.get(breaker.probeBatchDocId);
+		if (probe?.status === "flushing") {
+			return { allowed: false };
+		}
+	}
+
+	await ctx.db.patch(breaker._id, { state: "half_open", probeBatchDocId: batch._id, updatedAt: now });
+	return { allowed: true };
+}
+
+/**
+ * Updates the circuit breaker of a batch's processBatch with the result of a flush.
+ * Failures count towards failureThreshold (a failed probe reopens the breaker right
+ * away); a success closes it. Batches blocked by the breaker are woken accordingly.
+ */
+async function recordCircuitBreakerResult(
+	ctx: MutationCtx,
+	batch: Doc<"batches">,
+	success: boolean,
+	now: number
+): Promise<void> {
+	const { circuitBreaker, processBatchHandle } = batch.config;
+	if (!circuitBreaker) {
+		return;
+	}
+	const breaker = await getCircuitBreaker(ctx.db, processBatchHandle);
+
+	if (success) {
+		if (!breaker || (breaker.state === "closed" && breaker.consecutiveFailures === 0)) {
+			return;
+		}
+		await ctx.db.patch(breaker._id, {
+			state: "closed",
+			consecutiveFailures: 0,
+			openedAt: undefined,
+			reopensAt: undefined,
+			probeBatchDocId: undefined,
+			updatedAt: now,
+		});
+		await wakeCircuitBlockedFlushes(ctx, processBatchHandle, now);
+		return;
+	}
+
+	const consecutiveFailures = (breaker?.consecutiveFailures ?? 0) + 1;
+	const opens =
+		breaker?.state === "half_open" ||
+		(breaker?.state !== "open" && consecutiveFailures >= circuitBreaker.failureThreshold);
+	const fields = opens
+		? {
+				state: "open" as const,
+				consecutiveFailures,
+				openedAt: now,
+				reopensAt: now + circuitBreaker.cooldownMs,
+				probeBatchDocId: undefined,
+				updatedAt: now,
+			}
+		: { consecutiveFailures, updatedAt: now };
+	if (breaker) {
+		await ctx.db.patch(breaker._id, fields);
+	} else {
+		await ctx.db.insert("circuitBreakers", { processBatchHandle, state: "closed", ...fields });
+	}
+
+	if (opens) {
+		console.warn("[recordCircuitBreakerResult] Circuit breaker opened", {
+			processBatchHandle,
+			consecutiveFailures,
+		});
+		await wakeCircuitBlockedFlushes(ctx, processBatchHandle, now + circuitBreaker.cooldownMs);
+	}
+}
+
+/**
+ * Schedules the flush of the batches blocked by a processBatch's circuit breaker at `at`:
+ * now when it closes, or at the end of the cool-down when it (re)opens.
+ */
+async function wakeCircuitBlockedFlushes(
+	ctx: MutationCtx,
+	processBatchHandle: string,
+	at: number
+): Promise<void> {
+	const blocked = await ctx.db
+		.query("batches")
+		.withIndex("by_processBatchHandle_circuitBlockedAt", (q) =>
+			q.eq("config.processBatchHandle", processBatchHandle).gt("circuitBlockedAt", 0)
+		)
+		.collect();
+	for (const batch of blocked) {
+		await ctx.scheduler.runAt(at, internal.lib.maybeFlush, { batchDocId: batch._id, force: true });
+	}
+}
+
+/**
+ * Calls the batch's onFlushComplete (or, for failures, onFlushFailed) mutation within the
+ * transaction that records the flush. A callback that throws is rolled back and logged;
+ * the flush result is recorded regardless.
+ */
+async function runFlushCallback(
+	ctx: MutationCtx,
+	batch: Doc<"batches">,
+	args: FlushCallbackArgs | FlushFailedCallbackArgs
+): Promise<void> {
+	const failed = "errorMessage" in args;
+	const handle = failed ? batch.config.onFlushFailedHandle : batch.config.onFlushCompleteHandle;
+	if (!handle) {
+		return;
+	}
+	try {
+		await ctx.runMutation(handle as FunctionHandle<"mutation", typeof args>, args);
+	} catch (error) {
+		console.error(`[runFlushCallback] ${failed ? "onFlushFailed" : "onFlushComplete"} failed`, {
+			batchId: batch.batchId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+	}
+}
+
+/**
+ * Ends a failed flush attempt (already recorded in flushHistory): once maxFlushAttempts is
+ * exhausted the failed items are dead-lettered, otherwise the batch reverts to
+ * "accumulating" and the retry is scheduled.
+ */
+async function retryOrDeadLetter(
+	ctx: MutationCtx,
+	batch: Doc<"batches">,
+	attempt: {
+		flushAttempts: number;
+		failedAttempts: Doc<"deadLetters">["failedAttempts"];
+		exhausted: boolean;
+		cutoffTime: number;
+		failedCount: number;
+		errorMessage?: string;
+		now: number;
+	}
+): Promise<void> {
+	const batchDocId = batch._id;
+	const { flushAttempts, failedAttempts, cutoffTime, failedCount, errorMessage, now } = attempt;
+
+	if (attempt.exhausted) {
+		console.warn("[retryOrDeadLetter] Max flush attempts reached, dead-lettering batch", {
+			batchId: batch.batchId,
+			flushAttempts,
+		});
+		await moveToDeadLetter(
+			ctx,
+			batch,
+			cutoffTime,
+			failedCount,
+			flushAttempts,
+			failedAttempts,
+			errorMessage
+		);
+		// Undelivered chunks of this flush (if any) are flushed right away
+		await finishFlush(ctx, batch, { flushImmediately: true });
+		return;
+	}
+
+	// Revert to accumulating so the items are retried. With a retry policy the retry
+	// is scheduled with backoff; otherwise it waits for the next interval (or debounce).
+	let scheduledFlushId: typeof batch.scheduledFlushId = undefined;
+	let nextRetryAt: number | undefined;
+	if (batch.config.retryPolicy) {
+		const delayMs = computeRetryDelayMs(batch.config.retryPolicy, flushAttempts);
+		nextRetryAt = now + delayMs;
+		scheduledFlushId = await ctx.scheduler.runAfter(delayMs, internal.lib.maybeFlush, {
+			batchDocId,
+			force: true,
+			retry: true,
+		});
+	} else if (batch.config.processBatchHandle) {
+		scheduledFlushId = await scheduleFlushTimer(ctx, batch);
+	}
+
+	await ctx.db.patch(batchDocId, {
+		status: "accumulating",
+		flushStartedAt: undefined,
+		flushLeaseExpiresAt: undefined,
+		scheduledFlushId,
+		flushAttempts,
+		failedAttempts,
+		nextRetryAt,
+	});
+	await wakeQueuedFlushes(ctx);
+}
+
+async function deleteCounterShards(ctx: MutationCtx, batchDocId: Id<"batches">): Promise<void> {
+	const counters = await ctx.db
+		.query("batchCounters")
+		.withIndex("by_batchDocId_shard", (q) => q.eq("batchDocId", batchDocId))
+		.collect();
+	for (const counter of counters) {
+		await ctx.db.delete(counter._id);
+	}
+}
+
+/**
+ * Reads a (possibly dotted) field path from an item, e.g. "user.id".
+ */
+function getItemField(item: unknown, path: string): unknown {
+	let value: unknown = item;
+	for (const part of path.split(".")) {
+		if (value === null || typeof value !== "object") {
+			return undefined;
+		}
+		value = (value as Record<string, unknown>)[part];
+	}
+	return value;
+}
+
+/**
+ * Extracts the failed items named by a processBatch return value of the form
+ * `{ failed: [{ index } | { key }, ...] }`. Keys are matched against the item field
+ * configured as itemKey. Any other return value means every item succeeded.
+ */
+export function getFailedItems(
+	result: unknown,
+	items: unknown[],
+	itemKey: string | undefined
+): { failedIndexes: number[]; errorMessage?: string } {
+	if (result === null || typeof result !== "object" || !("failed" in result)) {
+		return { failedIndexes: [] };
+	}
+	const failed = (result as { failed: unknown }).failed;
+	if (!Array.isArray(failed)) {
+		return { failedIndexes: [] };
+	}
+
+	const failedIndexes = new Set<number>();
+	let errorMessage: string | undefined;
+	for (const entry of failed) {
+		if (entry === null || typeof entry !== "object") continue;
+		const { index, key, error } = entry as { index?: unknown; key?: unknown; error?: unknown };
+
+		let matched = false;
+		if (typeof index === "number" && Number.isInteger(index) && index >= 0 && index < items.length) {
+			failedIndexes.add(index);
+			matched = true;
+		} else if (key !== undefined && itemKey) {
+			items.forEach((item, i) => {
+				if (String(getItemField(item, itemKey)) === String(key)) {
+					failedIndexes.add(i);
+					matched = true;
+				}
+			});
+		}
+		if (matched && errorMessage === undefined && typeof error === "string") {
+			errorMessage = error;
+		}
+	}
+
+	return {
+		failedIndexes: [...failedIndexes].sort((a, b) => a - b),
+		errorMessage,
+	};
+}
+
+/**
+ * Collapses items that share a dedupeBy key, keeping the first or last occurrence (in
+ * the position of that occurrence). Items without the key field are always kept.
+ * sourceIndexes maps each returned item to its index in the original items.
+ */
+export function collapseDuplicateItems(
+	items: unknown[],
+	dedupeBy: DedupeBy
+): { items: unknown[]; sourceIndexes: number[] } {
+	const keepLast = (dedupeBy.keep ?? "last") === "last";
+	const survivorByKey = new Map<string, number>();
+	items.forEach((item, i) => {
+		const value = getItemField(item, dedupeBy.key);
+		if (value === undefined) return;
+		const key = String(value);
+		if (keepLast || !survivorByKey.has(key)) {
+			survivorByKey.set(key, i);
+		}
+	});
+
+	const sourceIndexes: number[] = [];
+	items.forEach((item, i) => {
+		const value = getItemField(item, dedupeBy.key);
+		if (value === undefined || survivorByKey.get(String(value)) === i) {
+			sourceIndexes.push(i);
+		}
+	});
+	return { items: sourceIndexes.map((i) => items[i]), sourceIndexes };
+}
+
+/**
+ * Applies the built-in reducers of a reduce config. Returns one value per distinct
+ * groupBy value (in order of first appearance), or a single value without groupBy.
+ * Non-numeric values are ignored by sum, max and min.
+ */
+export function applyBuiltInReducers(items: unknown[], reduce: ReduceConfig): unknown[] {
+	const groups = new Map<string, Record<string, unknown>>();
+	for (const item of items) {
+		const groupValue = reduce.groupBy ? getItemField(item, reduce.groupBy) : undefined;
+		const groupKey =
+			groupValue === undefined ? "" : `=${JSON.stringify(convexToJson(groupValue as Value))}`;
+		let reduced = groups.get(groupKey);
+		if (!reduced) {
+			reduced = reduce.groupBy && groupValue !== undefined ? { [reduce.groupBy]: groupValue } : {};
+			groups.set(groupKey, reduced);
+		}
+
+		for (const [field, reducer] of Object.entries(reduce.fields ?? {})) {
+			const value = getItemField(item, field);
+			const current = reduced[field];
+			if (reducer === "count") {
+				reduced[field] = ((current as number | undefined) ?? 0) + 1;
+			} else if (reducer === "first" || reducer === "last") {
+				if (value !== undefined && (reducer === "last" || current === undefined)) {
+					reduced[field] = value;
+				}
+			} else if (typeof value === "number") {
+				if (current === undefined) {
+					reduced[field] = value;
+				} else if (reducer === "sum") {
+					reduced[field] = (current as number) + value;
+				} else {
+					const pick = reducer === "max" ? Math.max : Math.min;
+					reduced[field] = pick(current as number, value);
+				}
+			}
+		}
+	}
+	return [...groups.values()];
+}
+
+/**
+ * Reduces the items of a flush chunk for reducer mode, with the custom merge query if
+ * one is configured and the built-in reducers otherwise.
+ */
+async function reduceItems(
+	ctx: Pick<ActionCtx, "runQuery">,
+	items: unknown[],
+	reduce: ReduceConfig
+): Promise<unknown[]> {
+	if (reduce.mergeHandle) {
+		const merge = reduce.mergeHandle as FunctionHandle<"query", { items: unknown[] }>;
+		const merged = await callHandle(merge, () => ctx.runQuery(merge, { items }));
+		return Array.isArray(merged) ? merged : [merged];
+	}
+	return applyBuiltInReducers(items, reduce);
+}
+
+// The first `count` items of a batchItems document that belong to a flush chunk
+type FlushItemSlice = { doc: Doc<"batchItems">; count: number };
+
+/**
+ * Returns the batchItems of a flush (created up to cutoffTime) in createdAt order,
+ * limited to the first `limit` items and (optionally) `byteLimit` bytes. The last
+ * document may be only partially included. At least one item is always returned if
+ * any is pending, even if it alone exceeds byteLimit.
+ */
+async function getFlushItemSlices(
+	db: DatabaseReader,
+	batchDocId: Id<"batches">,
+	cutoffTime: number,
+	limit?: number,
+	byteLimit?: number
+): Promise<FlushItemSlice[]> {
+	const slices: FlushItemSlice[] = [];
+	let remaining = limit ?? Number.POSITIVE_INFINITY;
+	let remainingBytes = byteLimit ?? Number.POSITIVE_INFINITY;
+	const batchItemDocs = db
+		.query("batchItems")
+		.withIndex("by_batchDocId_createdAt", (q) =>
+			q.eq("batchDocId", batchDocId).lt("createdAt", cutoffTime + 1)
+		);
+
+	for await (const doc of batchItemDocs) {
+		if (remaining <= 0) break;
+		let count = Math.min(doc.items.length, remaining);
+
+		if (byteLimit !== undefined) {
+			const docBytes = getDocByteSize(doc);
+			if (count < doc.items.length || docBytes > remainingBytes) {
+				// Measure item by item to find how many fit within the byte limit
+				let fitting = 0;
+				for (; fitting < count; fitting++) {
+					const itemBytes = getByteSize(doc.items[fitting]);
+					const isFirstItem = slices.length === 0 && fitting === 0;
+					if (itemBytes > remainingBytes && !isFirstItem) break;
+					remainingBytes -= itemBytes;
+				}
+				count = fitting;
+			} else {
+				remainingBytes -= docBytes;
+			}
+		}
+
+		if (count > 0) {
+			slices.push({ doc, count });
+			remaining -= count;
+		}
+		if (count < doc.items.length) break;
+	}
+	return slices;
+}
+
+/**
+ * Removes the first `count` items of a flush once they have been delivered, except the
+ * ones listed in failedIndexes (relative to those `count` items), which stay in their
+ * original batchItems documents so they are retried in order.
+ */
+async function removeDeliveredItems(
+	ctx: MutationCtx,
+	batchDocId: Id<"batches">,
+	cutoffTime: number,
+	count: number,
+	failedIndexes: number[] = []
+): Promise<void> {
+	const failed = new Set(failedIndexes);
+	const slices = await getFlushItemSlices(ctx.db, batchDocId, cutoffTime, count);
+
+	let offset = 0;
+	for (const { doc, count: sliceCount } of slices) {
+		const kept = doc.items.filter((_, i) => i >= sliceCount || failed.has(offset + i));
+		offset += sliceCount;
+
+		if (kept.length === 0) {
+			await ctx.db.delete(doc._id);
+		} else if (kept.length < doc.items.length) {
+			await ctx.db.patch(doc._id, {
+				items: kept,
+				itemCount: kept.length,
+				byteSize: doc.byteSize !== undefined ? getByteSize(kept) : undefined,
+			});
+		}
+	}
+}
+
+// Thrown by callHandle when the function handle it called couldn't be resolved
+class InvalidHandleError extends Error {
+	constructor(
+		readonly handle: string,
+		message: string
+	) {
+		super(message);
+		this.name = "InvalidHandleError";
+	}
+}
+
+/**
+ * Whether the error of a call through a function handle means that the handle couldn't be
+ * resolved. Convex doesn't give these errors a code, so this assumes the wording of its
+ * messages: they mention the function handle, or that the function couldn't be found.
+ * Should that wording change, such calls are retried (and dead-lettered) like any failed
+ * call. Errors thrown by the called function reach the caller prefixed with "Uncaught",
+ * so they never count, even if their message mentions function handles.
+ */
+export function isInvalidHandleMessage(message: string): boolean {
+	return INVALID_HANDLE_ERROR.test(message) && !FUNCTION_ERROR.test(message);
+}
+
+/**
+ * Calls a function through its handle (`call` makes the call). If the handle couldn't be
+ * resolved (e.g. its function was renamed or deleted, see isInvalidHandleMessage), an
+ * InvalidHandleError naming the handle is thrown: these calls fail every time, so they
+ * aren't retried. Errors thrown by the function itself are rethrown as they are.
+ */
+async function callHandle<T>(handle: string, call: () => Promise<T>): Promise<T> {
+	try {
+		return await call();
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (isInvalidHandleMessage(message)) {
+			throw new InvalidHandleError(handle, message);
+		}
+		throw error;
+	}
+}
+
+// The function handles stored in a batch config (or config update)
+function getConfigHandles(config: Partial<BatchConfig>): string[] {
+	return [
+		config.processBatchHandle,
+		config.reduce?.mergeHandle,
+		config.onFlushCompleteHandle,
+		config.onFlushFailedHandle,
+	].filter((handle): handle is string => handle !== undefined);
+}
+
+// Replaces oldHandle with newHandle in the handle fields of a batch config (or config update)
+function rebindConfigHandles<C extends Partial<BatchConfig>>(
+	config: C,
+	oldHandle: string,
+	newHandle: string
+): C {
+	const rebound: Partial<BatchConfig> = { ...config };
+	const fields = ["processBatchHandle", "onFlushCompleteHandle", "onFlushFailedHandle"] as const;
+	for (const field of fields) {
+		if (config[field] === oldHandle) {
+			rebound[field] = newHandle;
+		}
+	}
+	if (config.reduce?.mergeHandle === oldHandle) {
+		rebound.reduce = { ...config.reduce, mergeHandle: newHandle };
+	}
+	return rebound as C;
+}
+
+/**
+ * Stable ID of a flush chunk (FlushMetadata.flushId), derived from its items: the
+ * batchItems documents it takes items from, their sizes and how many items it takes.
+ * Documents only ever lose items, so any change to the chunk's items changes its ID.
+ */
+export function getChunkFlushId(batch: Doc<"batches">, slices: FlushItemSlice[]): string {
+	const range = slices
+		.map(({ doc, count }) => `${doc._id}/${doc.items.length}/${count}`)
+		.join(",");
+	// 64-bit string hash (cyrb53 mixing), hex encoded
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+	for (let i = 0; i < range.length; i++) {
+		const code = range.charCodeAt(i);
+		h1 = Math.imul(h1 ^ code, 2654435761);
+		h2 = Math.imul(h2 ^ code, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	const hash = [h2, h1].map((h) => (h >>> 0).toString(16).padStart(8, "0")).join("");
+	return `${batch.batchId}:${hash}`;
+}
+
+/**
+ * Returns the next chunk of a flush: the oldest items created before flushStartedAt,
+ * limited to maxItemsPerFlush items and maxBatchBytes bytes. Delivered chunks are removed
+ * when they are acknowledged, so repeated calls walk through the flush chunk by chunk.
+ */
+async function collectFlushChunk(db: DatabaseReader, batch: Doc<"batches">): Promise<FlushChunk> {
+	const flushStartedAt = batch.flushStartedAt ?? Date.now();
+
+	// A chunk that failed before is delivered again as it was, as long as its items are
+	// unchanged (items added since then go to the next chunk)
+	const { failedChunk } = batch;
+	let slices: FlushItemSlice[] | undefined;
+	if (failedChunk) {
+		const failedSlices = await getFlushItemSlices(
+			db,
+			batch._id,
+			failedChunk.lastItemAt,
+			failedChunk.itemCount
+		);
+		if (getChunkFlushId(batch, failedSlices) === failedChunk.flushId) {
+			slices = failedSlices;
+		}
+	}
+
+	// Otherwise get the batchItems created before flushStartedAt, up to the chunk size
+	slices ??= await getFlushItemSlices(
+		db,
+		batch._id,
+		flushStartedAt,
+		batch.config.maxItemsPerFlush,
+		batch.config.maxBatchBytes
+	);
+
+	// Flatten the items from the batchItem documents
+	const sourceItems: unknown[] = [];
+	for (const { doc, count } of slices) {
+		sourceItems.push(...doc.items.slice(0, count));
+	}
+
+	// With includeMetadata, processBatch learns which chunk of which batch it gets. The
+	// flushId identifies the chunk's items, so retries of an unchanged chunk keep it and
+	// only the attempt changes.
+	const chunkIndex = batch.acknowledgedChunks ?? 0;
+	const flushId = getChunkFlushId(batch, slices);
+	const metadata: FlushMetadata | undefined =
+		batch.config.includeMetadata && slices.length > 0
+			? {
+					flushId,
+					batchId: batch.batchId,
+					baseBatchId: batch.baseBatchId,
+					sequence: batch.sequence,
+					...(batch.partitionKey !== undefined ? { partitionKey: batch.partitionKey } : {}),
+					chunkIndex,
+					attempt: (failedChunk?.flushId === flushId ? failedChunk.attempts : 0) + 1,
+					firstItemAt: Math.min(...slices.map(({ doc }) => doc.createdAt)),
+					lastItemAt: Math.max(...slices.map(({ doc }) => doc.createdAt)),
+				}
+			: undefined;
+
+	// Collapse duplicates within the chunk. The chunk is still acknowledged by its
+	// source item count, so superseded duplicates are removed with it.
+	const { items, sourceIndexes } = batch.config.dedupeBy
+		? collapseDuplicateItems(sourceItems, batch.config.dedupeBy)
+		: { items: sourceItems, sourceIndexes: undefined };
+
+	return {
+		items,
+		sourceItemCount: sourceItems.length,
+		sourceIndexes,
+		byteSize: getByteSize(items),
+		flushStartedAt,
+		itemKey: batch.config.itemKey,
+		reduce: batch.config.reduce,
+		// Event-time windows are passed to processBatch along with the items
+		window:
+			batch.config.eventTimeWindow && batch.windowStart !== undefined && batch.windowEnd !== undefined
+				? { start: batch.windowStart, end: batch.windowEnd }
+				: undefined,
+		metadata,
+		rateLimited: batch.config.rateLimit !== undefined,
+		processBatchType: batch.config.processBatchType,
+	};
+}
+
+/**
+ * Calls processBatch with a flush chunk (through `invoke`) and evaluates its result.
+ * Failed items are mapped back to the chunk's source items (collapsed duplicates count
+ * as delivered); failures of reduced chunks fail the whole chunk.
+ */
+async function deliverFlushChunk(
+	ctx: Pick<ActionCtx, "runQuery">,
+	chunk: FlushChunk,
+	invoke: (args: ProcessBatchArgs) => Promise<unknown>
+): Promise<ChunkDelivery> {
+	try {
+		// In reducer mode processBatch receives the reduced values instead of the items
+		const items = chunk.reduce ? await reduceItems(ctx, chunk.items, chunk.reduce) : chunk.items;
+		// window and metadata are only passed when configured, so processBatch
+		// validators that don't expect them keep working
+		const result = await invoke({
+			items,
+			...(chunk.window ? { window: chunk.window } : {}),
+			...(chunk.metadata ? { metadata: chunk.metadata } : {}),
+		});
+
+		// processBatch may report individual failed items instead of throwing
+		const failedItems = getFailedItems(result, items, chunk.itemKey);
+		if (failedItems.failedIndexes.length > 0 && chunk.reduce) {
+			// Reduced values don't map back to items, so the whole chunk is retried
+			return {
+				failed: true,
+				result,
+				errorMessage:
+					failedItems.errorMessage ??
+					`${failedItems.failedIndexes.length} of ${items.length} reduced items failed`,
+			};
+		}
+		if (failedItems.failedIndexes.length > 0) {
+			const sourceIndexes = chunk.sourceIndexes;
+			const failedIndexes = sourceIndexes
+				? failedItems.failedIndexes.map((i) => sourceIndexes[i])
+				: failedItems.failedIndexes;
+			return {
+				failed: true,
+				result,
+				failedIndexes,
+				errorMessage:
+					failedItems.errorMessage ?? `${failedIndexes.length} of ${chunk.items.length} items failed`,
+			};
+		}
+		return { failed: false, result };
+	} catch (error) {
+		return {
+			failed: true,
+			errorMessage: error instanceof Error ? error.message : String(error),
+			...(error instanceof InvalidHandleError ? { invalidHandle: error.handle } : {}),
+		};
+	}
+}
+
+/**
+ * Identifies a chunk whose delivery failed, so that its retries deliver the same items
+ * under the same flushId. Only chunks with metadata (includeMetadata) have one.
+ */
+function getFailedChunk(chunk: FlushChunk): FailedChunk | undefined {
+	return chunk.metadata
+		? {
+				flushId: chunk.metadata.flushId,
+				lastItemAt: chunk.metadata.lastItemAt,
+				itemCount: chunk.sourceItemCount,
+			}
+		: undefined;
+}
+
+/**
+ * The batch's failedChunk after another failed attempt at `chunk`: attempts are counted
+ * per chunk, starting over when a different chunk fails.
+ */
+function countChunkAttempt(
+	batch: Doc<"batches">,
+	chunk: FailedChunk | undefined
+): Doc<"batches">["failedChunk"] {
+	if (!chunk) return undefined;
+	const attempts = batch.failedChunk?.flushId === chunk.flushId ? batch.failedChunk.attempts : 0;
+	return { ...chunk, attempts: attempts + 1 };
+}
+
+/**
+ * Removes a delivered chunk from a flushing batch and renews the flush's lease.
+ */
+async function acknowledgeChunk(
+	ctx: MutationCtx,
+	batch: Doc<"batches">,
+	flushStartedAt: number,
+	itemCount: number
+): Promise<void> {
+	await removeDeliveredItems(ctx, batch._id, flushStartedAt, itemCount);
+	const now = Date.now();
+	await ctx.db.patch(batch._id, {
+		acknowledgedChunks: (batch.acknowledgedChunks ?? 0) + 1,
+		failedChunk: undefined,
+		lastUpdatedAt: now,
+		// The flush is making progress, so its lease is renewed for the next chunk
+		flushLeaseExpiresAt: now + getFlushLeaseMs(batch.config),
+	});
+}
+
+/**
+ * Called once the items of a flush have been removed from a batch (delivered or
+ * dead-lettered). Reverts the batch to "accumulating" if items were added during the
+ * flush, otherwise marks it completed and cleans up older completed batches.
+ */
+async function finishFlush(
+	ctx: MutationCtx,
+	batch: Doc<"batches">,
+	options: { flushImmediately?: boolean; flushAt?: number } = {}
+): Promise<void> {
+	const batchDocId = batch._id;
+
+	// Check for stranded items (added after flushStartedAt)
+	const remainingItems = await ctx.db
+		.query("batchItems")
+		.withIndex("by_batchDocId", (q) => q.eq("batchDocId", batchDocId))
+		.collect();
+	const remainingCount = remainingItems.reduce((sum, item) => sum + item.itemCount, 0);
+	const remainingBytes = remainingItems.reduce((sum, item) => sum + getDocByteSize(item), 0);
+
+	if (remainingCount > 0) {
+		// Don't complete - keep accumulating for stranded items
+		await ctx.db.patch(batchDocId, {
+			status: "accumulating",
+			flushStartedAt: undefined,
+			flushLeaseExpiresAt: undefined,
+			flushAttempts: undefined,
+			failedAttempts: undefined,
+			nextRetryAt: undefined,
+			lastUpdatedAt: Date.now(),
+		});
+		await wakeQueuedFlushes(ctx);
+
+		// Schedule another maybeFlush if at threshold (or if the remaining items were
+		// already due, e.g. undelivered chunks of a flush that was dead-lettered)
+		const threshold = batch.config.immediateFlushThreshold ?? batch.config.maxBatchSize;
+		const hasThreshold = threshold !== undefined || batch.config.maxBatchBytes !== undefined;
+		if (options.flushImmediately) {
+			await ctx.scheduler.runAfter(0, internal.lib.maybeFlush, { batchDocId, force: true });
+		} else if (options.flushAt !== undefined) {
+			// The rest of a flush that was cut short by the rate limit
+			const scheduledFlushId = await ctx.scheduler.runAt(options.flushAt, internal.lib.maybeFlush, {
+				batchDocId,
+				force: true,
+			});
+			await ctx.db.patch(batchDocId, { scheduledFlushId });
+		} else if (hasThreshold && isAtFlushThreshold(batch.config, remainingCount, remainingBytes)) {
+			await ctx.scheduler.runAfter(0, internal.lib.maybeFlush, { batchDocId });
+		} else {
+			// Re-schedule interval (or debounce) timer
+			const scheduledFlushId = await scheduleFlushTimer(ctx, batch);
+			if (scheduledFlushId) {
+				await ctx.db.patch(batchDocId, { scheduledFlushId });
+			}
+		}
+		return;
+	}
+
+	// No stranded items - mark completed
+	await deleteCounterShards(ctx, batchDocId);
+	await ctx.db.patch(batchDocId, {
+		status: "completed",
+		flushStartedAt: undefined,
+		flushLeaseExpiresAt: undefined,
+		flushAttempts: undefined,
+		failedAttempts: undefined,
+		lastUpdatedAt: Date.now(),
+	});
+	await wakeQueuedFlushes(ctx);
+	if (batch.config.ordered) {
+		await wakeNextOrderedFlush(ctx, batch);
+	}
+
+	// Clean up old completed batches for the same base ID
+	// Keep only the most recent completed batch to reduce clutter
+	const completedBatches = await ctx.db
+		.query("batches")
+		.withIndex("by_baseBatchId_status", (q) =>
+			q.eq("baseBatchId", batch.baseBatchId).eq("status", "completed")
+		)
+		.collect();
+
+	// Sort by sequence number descending and delete all but the most recent
+	const sortedCompleted = completedBatches.sort((a, b) => b.sequence - a.sequence);
+	for (let i = 1; i < sortedCompleted.length; i++) {
+		// Also delete batchItems for old completed batches
+		const oldBatchItems = await ctx.db
+			.query("batchItems")
+			.withIndex("by_batchDocId", (q) => q.eq("batchDocId", sortedCompleted[i]._id))
+			.collect();
+		for (const item of oldBatchItems) {
+			await ctx.db.delete(item._id);
+		}
+		await ctx.db.delete(sortedCompleted[i]._id);
+	}
+}
+
+/**
+ * Moves the first `count` items of a flush (batchItems created up to cutoffTime) into a
+ * new dead letter, preserving their original grouping and creation times. `attempts` is
+ * the number of failed flushes; failedAttempts holds only the most recent ones.
+ */
+async function moveToDeadLetter(
+	ctx: MutationCtx,
+	batch: Doc<"batches">,
+	cutoffTime: number,
+	count: number,
+	attempts: number,
+	failedAttempts: Doc<"deadLetters">["failedAttempts"],
+	lastErrorMessage: string | undefined
+): Promise<Id<"deadLetters">> {
+	const slices = await getFlushItemSlices(ctx.db, batch._id, cutoffTime, count);
+
+	const deadLetterId = await ctx.db.insert("deadLetters", {
+		batchId: batch.batchId,
+		baseBatchId: batch.baseBatchId,
+		sequence: batch.sequence,
+		itemCount: slices.reduce((sum, slice) => sum + slice.count, 0),
+		attempts,
+		lastErrorMessage,
+		failedAttempts,
+		config: batch.config,
+		createdAt: batch.createdAt,
+		deadLetteredAt: Date.now(),
+		windowStart: batch.windowStart,
+		windowEnd: batch.windowEnd,
+		partitionKey: batch.partitionKey,
+	});
+
+	for (const { doc, count: sliceCount } of slices) {
+		await ctx.db.insert("deadLetterItems", {
+			deadLetterId,
+			items: doc.items.slice(0, sliceCount),
+			itemCount: sliceCount,
+			createdAt: doc.createdAt,
+		});
+		if (sliceCount === doc.items.length) {
+			await ctx.db.delete(doc._id);
+		} else {
+			const rest = doc.items.slice(sliceCount);
+			await ctx.db.patch(doc._id, {
+				items: rest,
+				itemCount: rest.length,
+				byteSize: doc.byteSize !== undefined ? getByteSize(rest) : undefined,
+			});
+		}
+	}
+
+	return deadLetterId;
+}
+
 // ============================================================================
 // Batch Accumulator - Public API
 // ============================================================================
@@ -25,15 +1868,10 @@ export const addItems = mutation({
 	args: {
 		batchId: v.string(),
 		items: v.array(v.any()),
-		config: v.object({
-			immediateFlushThreshold: v.optional(v.number()),
-			/** @deprecated Use immediateFlushThreshold instead */
-			maxBatchSize: v.optional(v.number()),
-			flushIntervalMs: v.number(),
-			processBatchHandle: v.string(),
-		}),
+		config: batchConfigValidator,
+		idempotencyKey: v.optional(v.string()),
 	},
-	handler: async (ctx, { batchId, items, config }) => {
+	handler: async (ctx, { batchId, items: rawItems, config, idempotencyKey }) => {
 		const now = Date.now();
 
 		// Parse base batch ID (strip sequence if present)
@@ -41,88 +1879,148 @@ export const addItems = mutation({
 			? batchId.split("::")[0]
 			: batchId;
 
-		// 1. Find accumulating batch (READ only)
-		let batch = await ctx.db
-			.query("batches")
-			.withIndex("by_baseBatchId_status", (q) =>
-				q.eq("baseBatchId", baseBatchId).eq("status", "accumulating")
-			)
-			.first();
-
-		// 2. If no batch, create one WITH timer (one-time INSERT)
-		if (!batch) {
-			// Find highest sequence number for this base ID
-			const latestBatch = await ctx.db
-				.query("batches")
-				.withIndex("by_baseBatchId_sequence", (q) => q.eq("baseBatchId", baseBatchId))
-				.order("desc")
-				.first();
+		// 0. Idempotency: a repeated call returns its original result, and (optionally)
+		//    items whose key was already added within the window are dropped. These reads
+		//    only touch the keys involved, so unrelated calls don't conflict.
+		const expiresAt = now + (config.idempotencyWindowMs ?? DEFAULT_IDEMPOTENCY_WINDOW_MS);
+		const requestKey = idempotencyKey !== undefined ? `request:${idempotencyKey}` : undefined;
+		if (requestKey) {
+			const previous = await getIdempotencyKey(ctx, baseBatchId, requestKey, now);
+			if (previous) {
+				return { ...(previous.result as BatchResult), duplicate: true };
+			}
+		}
 
-			const nextSequence = latestBatch ? latestBatch.sequence + 1 : 0;
-			const newBatchId = `${baseBatchId}::${nextSequence}`;
+		// Item keys are remembered once their items are inserted (late items aren't)
+		let items = rawItems;
+		const itemKeys = new Map<unknown, string>();
+		if (config.dedupeItemsByKey && config.itemKey) {
+			const itemKey = config.itemKey;
+			const seenKeys = new Set<string>();
+			items = [];
+			for (const item of rawItems) {
+				const value = getItemField(item, itemKey);
+				if (value === undefined) {
+					items.push(item);
+					continue;
+				}
+				const key = `item:${String(value)}`;
+				if (seenKeys.has(key) || (await getIdempotencyKey(ctx, baseBatchId, key, now))) {
+					continue;
+				}
+				seenKeys.add(key);
+				itemKeys.set(item, key);
+				items.push(item);
+			}
+		}
+		const skippedItemCount = rawItems.length - items.length;
 
-			const batchDocId = await ctx.db.insert("batches", {
-				batchId: newBatchId,
-				baseBatchId,
-				sequence: nextSequence,
-				createdAt: now,
-				lastUpdatedAt: now,
+		if (items.length === 0) {
+			const result: BatchResult = {
+				batchId: baseBatchId,
+				itemCount: 0,
+				flushed: false,
 				status: "accumulating",
-				config,
-			});
-			batch = (await ctx.db.get(batchDocId))!;
-
-			// Schedule timer at creation (not on every add)
-			if (config.flushIntervalMs > 0) {
-				const scheduledFlushId = await ctx.scheduler.runAfter(
-					config.flushIntervalMs,
-					internal.lib.maybeFlush,
-					{ batchDocId: batch._id, force: true }
-				);
-				await ctx.db.patch(batch._id, { scheduledFlushId });
+				...(skippedItemCount > 0 ? { skippedItemCount } : {}),
+			};
+			if (requestKey) {
+				await rememberIdempotencyKey(ctx, baseBatchId, requestKey, expiresAt, result);
 			}
+			return result;
 		}
 
-		// 3. INSERT items (NEVER conflicts - always a new document)
-		await ctx.db.insert("batchItems", {
-			batchDocId: batch._id,
-			items,
-			itemCount: items.length,
-			createdAt: now,
-		});
+		// 1. Route the items: to the batch of each item's partition and event-time window if
+		//    configured (late items are dropped); otherwise all to the accumulating batch
+		const { groups, lateItemCount } = routeItems(items, config, now);
 
-		// 4. Schedule flush check ONLY if this single call could complete a batch
-		//    DO NOT query batchItems to count - that causes OCC conflicts when
-		//    multiple concurrent addItems all read the same index.
-		//
-		//    Dual-trigger pattern:
-		//    - SIZE trigger: items.length >= immediateFlushThreshold (handled here)
-		//    - TIME trigger: flushIntervalMs timer (scheduled at batch creation)
-		//
-		//    For high-throughput small items, the interval timer handles flushing.
-		//    For large single calls, we trigger immediate flush check.
-		const threshold = config.immediateFlushThreshold ?? config.maxBatchSize;
-		if (threshold !== undefined && items.length >= threshold) {
-			await ctx.scheduler.runAfter(0, internal.lib.maybeFlush, {
+		for (const group of groups) {
+			// 1-2. Find accumulating batch, or create one WITH timer (one-time INSERT). Its
+			//      config (with the changes made by updateBatchConfig) decides when it flushes.
+			const batch = await getOrCreateAccumulatingBatch(ctx, baseBatchId, config, now, {
+				partitionKey: group.partitionKey,
+				window: group.window,
+			});
+			const { maxBatchBytes, cumulativeFlushThreshold } = batch.config;
+
+			// 3. INSERT items (NEVER conflicts - always a new document). Items are only
+			//    measured when maxBatchBytes needs their size.
+			const byteSize = maxBatchBytes !== undefined ? getByteSize(group.items) : undefined;
+			await ctx.db.insert("batchItems", {
 				batchDocId: batch._id,
+				items: group.items,
+				itemCount: group.items.length,
+				byteSize,
+				createdAt: now,
 			});
+			for (const item of group.items) {
+				const key = itemKeys.get(item);
+				if (key !== undefined) {
+					await rememberIdempotencyKey(ctx, baseBatchId, key, expiresAt);
+				}
+			}
+
+			// 4. Schedule flush check ONLY if this single call could complete a batch
+			//    DO NOT query batchItems to count - that causes OCC conflicts when
+			//    multiple concurrent addItems all read the same index.
+			//
+			//    Dual-trigger pattern:
+			//    - SIZE trigger: items.length >= immediateFlushThreshold (handled here)
+			//    - TIME trigger: flushIntervalMs timer (scheduled at batch creation). In
+			//      debounce mode the timer itself checks for a quiet period, so adding items
+			//      never touches it.
+			//
+			//    For high-throughput small items, the interval timer handles flushing.
+			//    For large single calls, we trigger immediate flush check.
+			//    maxBatchBytes works the same way for the serialized size of this call's items.
+			//
+			//    Cumulative thresholds (cumulativeFlushThreshold, maxBatchBytes) are tracked
+			//    with sharded counters: one random shard is updated per call, and a shard
+			//    crossing its share of the threshold schedules a flush check.
+			const threshold = batch.config.immediateFlushThreshold ?? batch.config.maxBatchSize;
+			let shouldCheckFlush =
+				(threshold !== undefined && group.items.length >= threshold) ||
+				(maxBatchBytes !== undefined && (byteSize ?? 0) >= maxBatchBytes);
+			if (cumulativeFlushThreshold !== undefined || maxBatchBytes !== undefined) {
+				const crossedShare = await incrementCounterShard(
+					ctx,
+					batch,
+					group.items.length,
+					byteSize ?? 0
+				);
+				shouldCheckFlush = shouldCheckFlush || crossedShare;
+			}
+			if (shouldCheckFlush) {
+				await ctx.scheduler.runAfter(0, internal.lib.maybeFlush, {
+					batchDocId: batch._id,
+				});
+			}
 		}
 
-		// 5. Return success - NO PATCH, NO COUNT QUERY!
+		// 5. Return success - NO BATCH PATCH, NO COUNT QUERY!
 		//    We return the count of items added in THIS call only.
 		//    Total count can be obtained via getBatchStatus query if needed.
-		return {
+		const result: BatchResult = {
 			batchId: baseBatchId,
-			itemCount: items.length,
+			itemCount: items.length - lateItemCount,
 			flushed: false, // Flush happens via interval timer or large batch detection
 			status: "accumulating",
+			...(skippedItemCount > 0 ? { skippedItemCount } : {}),
+			...(lateItemCount > 0 ? { lateItemCount } : {}),
 		};
+		if (requestKey) {
+			await rememberIdempotencyKey(ctx, baseBatchId, requestKey, expiresAt, result);
+		}
+		return result;
 	},
 });
 
 export const flushBatch = mutation({
 	args: { batchId: v.string() },
 	handler: async (ctx, { batchId }) => {
+		if (await getPause(ctx.db, batchId.split("::")[0])) {
+			return { batchId, itemCount: 0, flushed: false, reason: "Batch is paused" };
+		}
+
 		// First try exact match (for full batch IDs like "base::0")
 		let batch = await ctx.db
 			.query("batches")
@@ -131,12 +2029,39 @@ export const flushBatch = mutation({
 
 		// If not found, try as base batch ID and find the accumulating batch
 		if (!batch) {
-			batch = await ctx.db
+			const accumulatingBatches = await ctx.db
 				.query("batches")
 				.withIndex("by_baseBatchId_status", (q) =>
 					q.eq("baseBatchId", batchId).eq("status", "accumulating")
 				)
-				.first();
+				.collect();
+
+			// With partitions (or windows) there can be several: flush all of them
+			if (accumulatingBatches.length > 1) {
+				let totalCount = 0;
+				for (const accumulating of accumulatingBatches) {
+					const itemDocs = await ctx.db
+						.query("batchItems")
+						.withIndex("by_batchDocId", (q) => q.eq("batchDocId", accumulating._id))
+						.collect();
+					const count = itemDocs.reduce((sum, doc) => sum + doc.itemCount, 0);
+					if (count === 0 || !accumulating.config.processBatchHandle) continue;
+					// Batches in retry backoff are flushed by their retry timer
+					if (accumulating.nextRetryAt !== undefined && accumulating.nextRetryAt > Date.now()) {
+						continue;
+					}
+					totalCount += count;
+					await ctx.scheduler.runAfter(0, internal.lib.maybeFlush, {
+						batchDocId: accumulating._id,
+						force: true,
+					});
+				}
+				if (totalCount === 0) {
+					return { batchId, itemCount: 0, flushed: false, reason: "Batch is empty" };
+				}
+				return { batchId, itemCount: totalCount, flushed: true, status: "flushing" };
+			}
+			batch = accumulatingBatches[0] ?? null;
 		}
 
 		if (!batch) {
@@ -158,6 +2083,10 @@ export const flushBatch = mutation({
 			return { batchId, itemCount: 0, flushed: false, reason: "Batch is empty" };
 		}
 
+		if (batch.nextRetryAt !== undefined && batch.nextRetryAt > Date.now()) {
+			return { batchId, itemCount, flushed: false, reason: "Batch is waiting for its retry" };
+		}
+
 		if (!batch.config.processBatchHandle) {
 			throw new Error(`Batch ${batchId} has no processBatchHandle configured`);
 		}
@@ -201,15 +2130,38 @@ export const getBatchStatus = query({
 			)
 			.collect();
 
-		const activeBatches = [...flushingBatches, ...accumulatingBatches];
+		// Batches waiting for rebindHandle still hold pending items
+		const invalidHandleBatches = await ctx.db
+			.query("batches")
+			.withIndex("by_baseBatchId_status", (q) =>
+				q.eq("baseBatchId", baseBatchId).eq("status", "handle_invalid")
+			)
+			.collect();
+
+		const activeBatches = [...flushingBatches, ...accumulatingBatches, ...invalidHandleBatches];
 
 		if (activeBatches.length === 0) {
 			return null;
 		}
 
-		// Use config from any batch (they should all have the same config)
+		// Use config from any batch (applyBatchConfig keeps them in sync)
 		const config = activeBatches[0].config;
 
+		// Remaining rate limit budget of the processBatch (shared by all its batch IDs)
+		let rateLimitBudget: { requestTokens?: number; itemTokens?: number } | undefined;
+		if (config.rateLimit) {
+			const { requestTokens, itemTokens } = await getRateLimitBudget(
+				ctx.db,
+				config.processBatchHandle,
+				config.rateLimit,
+				Date.now()
+			);
+			rateLimitBudget = {
+				requestTokens: config.rateLimit.requestsPerSecond !== undefined ? requestTokens : undefined,
+				itemTokens: config.rateLimit.itemsPerSecond !== undefined ? itemTokens : undefined,
+			};
+		}
+
 		// Compute itemCount and lastUpdatedAt from batchItems for each batch
 		const batchesWithCounts = await Promise.all(
 			activeBatches.map(async (batch) => {
@@ -218,27 +2170,54 @@ export const getBatchStatus = query({
 					.withIndex("by_batchDocId", (q) => q.eq("batchDocId", batch._id))
 					.collect();
 				const itemCount = batchItemDocs.reduce((sum, doc) => sum + doc.itemCount, 0);
+				const byteSize = batchItemDocs.reduce((sum, doc) => sum + getDocByteSize(doc), 0);
 				// Compute lastUpdatedAt as max of batchItems.createdAt, or fall back to batch.lastUpdatedAt
 				const lastUpdatedAt = batchItemDocs.length > 0
 					? Math.max(...batchItemDocs.map((doc) => doc.createdAt))
 					: batch.lastUpdatedAt;
 				return {
-					status: batch.status as "accumulating" | "flushing",
+					status: batch.status as "accumulating" | "flushing" | "handle_invalid",
 					itemCount,
+					byteSize,
 					createdAt: batch.createdAt,
 					lastUpdatedAt,
+					flushAttempts: batch.flushAttempts ?? 0,
+					nextRetryAt: batch.nextRetryAt,
+					windowStart: batch.windowStart,
+					windowEnd: batch.windowEnd,
+					partitionKey: batch.partitionKey,
+					flushQueuedAt: batch.flushQueuedAt,
+					circuitBlockedAt: batch.circuitBlockedAt,
+					orderBlockedAt: batch.orderBlockedAt,
+					flushLeaseExpiresAt: batch.flushLeaseExpiresAt,
 				};
 			})
 		);
 
+		const pause = await getPause(ctx.db, baseBatchId);
+
 		return {
 			batchId: baseBatchId,
+			paused: pause !== null,
+			pausedAt: pause?.pausedAt,
 			batches: batchesWithCounts,
 			config: {
 				immediateFlushThreshold: config.immediateFlushThreshold,
+				cumulativeFlushThreshold: config.cumulativeFlushThreshold,
 				maxBatchSize: config.maxBatchSize,
 				flushIntervalMs: config.flushIntervalMs,
+				maxFlushAttempts: config.maxFlushAttempts,
+				retryPolicy: config.retryPolicy,
+				maxBatchBytes: config.maxBatchBytes,
+				debounceMs: config.debounceMs,
+				maxWaitMs: config.maxWaitMs,
+				flushSchedule: config.flushSchedule,
+				maxConcurrentFlushes: config.maxConcurrentFlushes,
+				rateLimit: config.rateLimit,
+				circuitBreaker: config.circuitBreaker,
+				ordered: config.ordered,
 			},
+			rateLimitBudget,
 		};
 	},
 });
@@ -268,6 +2247,7 @@ export const getAllBatchesForBaseId = query({
 					batchId: batch.batchId,
 					baseBatchId: batch.baseBatchId,
 					sequence: batch.sequence,
+					partitionKey: batch.partitionKey,
 					itemCount,
 					status: batch.status,
 					createdAt: batch.createdAt,
@@ -278,6 +2258,66 @@ export const getAllBatchesForBaseId = query({
 	},
 });
 
+/**
+ * listPartitions - Lists the partitions (with partitionBy) of a base batch ID that have
+ * active batches, with their pending item counts.
+ */
+export const listPartitions = query({
+	args: { baseBatchId: v.string() },
+	handler: async (ctx, { baseBatchId }) => {
+		const partitions = new Map<
+			string | undefined,
+			{
+				partitionKey?: string;
+				itemCount: number;
+				byteSize: number;
+				batchCount: number;
+				flushing: boolean;
+				lastUpdatedAt: number;
+			}
+		>();
+
+		for (const status of ["accumulating", "flushing", "handle_invalid"] as const) {
+			const batches = await ctx.db
+				.query("batches")
+				.withIndex("by_baseBatchId_status", (q) =>
+					q.eq("baseBatchId", baseBatchId).eq("status", status)
+				)
+				.collect();
+
+			for (const batch of batches) {
+				const batchItemDocs = await ctx.db
+					.query("batchItems")
+					.withIndex("by_batchDocId", (q) => q.eq("batchDocId", batch._id))
+					.collect();
+				let partition = partitions.get(batch.partitionKey);
+				if (!partition) {
+					partition = {
+						partitionKey: batch.partitionKey,
+						itemCount: 0,
+						byteSize: 0,
+						batchCount: 0,
+						flushing: false,
+						lastUpdatedAt: batch.lastUpdatedAt,
+					};
+					partitions.set(batch.partitionKey, partition);
+				}
+				partition.batchCount++;
+				partition.flushing = partition.flushing || status === "flushing";
+				for (const doc of batchItemDocs) {
+					partition.itemCount += doc.itemCount;
+					partition.byteSize += getDocByteSize(doc);
+					partition.lastUpdatedAt = Math.max(partition.lastUpdatedAt, doc.createdAt);
+				}
+			}
+		}
+
+		return [...partitions.values()].sort((a, b) =>
+			(a.partitionKey ?? "").localeCompare(b.partitionKey ?? "")
+		);
+	},
+});
+
 export const getFlushHistory = query({
 	args: {
 		batchId: v.string(),
@@ -297,6 +2337,140 @@ export const getFlushHistory = query({
 	},
 });
 
+/**
+ * updateBatchConfig - Updates the config of the active batches of a base batch ID (all
+ * its sequences, partitions and windows). Omitted fields keep their values; fields listed
+ * in `unset` are removed. Running timers and thresholds are reconciled with the new
+ * config (see applyBatchConfig). The changes also apply to batches that addItems creates
+ * later, until the config that addItems is called with changes.
+ */
+export const updateBatchConfig = mutation({
+	args: {
+		baseBatchId: v.string(),
+		config: batchConfigUpdateValidator,
+		unset: v.optional(v.array(v.string())),
+	},
+	handler: async (ctx, { baseBatchId, config, unset = [] }) => {
+		for (const field of unset) {
+			if (!UNSETTABLE_CONFIG_FIELDS.has(field)) {
+				throw new Error(`Config field ${field} can't be unset`);
+			}
+		}
+
+		// Remember the changes, so that addItems applies them to new batches too
+		const state = await getBatchConfigState(ctx.db, baseBatchId);
+		const updates: Record<string, unknown> = { ...state?.updates, ...config };
+		for (const field of unset) {
+			delete updates[field];
+		}
+		const unsetFields = [
+			...new Set([
+				...(state?.unsetFields ?? []).filter((field) => !(field in config)),
+				...unset,
+			]),
+		];
+		const changes = {
+			updates: updates as BatchConfigUpdate,
+			unsetFields: unsetFields.length > 0 ? unsetFields : undefined,
+		};
+		if (state) {
+			await ctx.db.patch(state._id, changes);
+		} else {
+			await ctx.db.insert("batchConfigs", { baseBatchId, ...changes });
+		}
+
+		const updatedCount = await applyBatchConfig(ctx, baseBatchId, (current) =>
+			withConfigUpdates(current, config, unset)
+		);
+		return { batchId: baseBatchId, updatedCount };
+	},
+});
+
+/**
+ * pauseBatch - Suspends the flushes of a base batch ID (all its sequences, partitions and
+ * windows, including ones created while paused). addItems keeps accepting items; timers
+ * are cancelled and flushes that come due are skipped until resumeBatch. A flush that is
+ * already in progress completes.
+ */
+export const pauseBatch = mutation({
+	args: { baseBatchId: v.string() },
+	handler: async (ctx, { baseBatchId }) => {
+		const existing = await getPause(ctx.db, baseBatchId);
+		if (existing) {
+			return { batchId: baseBatchId, paused: true, pausedAt: existing.pausedAt };
+		}
+
+		const pausedAt = Date.now();
+		await ctx.db.insert("pausedBatches", { baseBatchId, pausedAt });
+
+		const accumulatingBatches = await ctx.db
+			.query("batches")
+			.withIndex("by_baseBatchId_status", (q) =>
+				q.eq("baseBatchId", baseBatchId).eq("status", "accumulating")
+			)
+			.collect();
+		for (const batch of accumulatingBatches) {
+			if (batch.scheduledFlushId) {
+				await ctx.scheduler.cancel(batch.scheduledFlushId);
+			}
+			// Paused batches also give up their place in the flush queue
+			await ctx.db.patch(batch._id, { scheduledFlushId: undefined, flushQueuedAt: undefined });
+		}
+
+		return { batchId: baseBatchId, paused: true, pausedAt };
+	},
+});
+
+/**
+ * resumeBatch - Resumes the flushes of a paused base batch ID. Accumulated items are
+ * flushed right away, except for batches whose schedule or event-time window hasn't
+ * closed yet or that wait for a retry (retryPolicy); their timers are restored instead.
+ */
+export const resumeBatch = mutation({
+	args: { baseBatchId: v.string() },
+	handler: async (ctx, { baseBatchId }) => {
+		const pause = await getPause(ctx.db, baseBatchId);
+		if (!pause) {
+			return { batchId: baseBatchId, paused: false };
+		}
+		await ctx.db.delete(pause._id);
+
+		const now = Date.now();
+		const accumulatingBatches = await ctx.db
+			.query("batches")
+			.withIndex("by_baseBatchId_status", (q) =>
+				q.eq("baseBatchId", baseBatchId).eq("status", "accumulating")
+			)
+			.collect();
+		for (const batch of accumulatingBatches) {
+			if (batch.scheduledFlushId) {
+				await ctx.scheduler.cancel(batch.scheduledFlushId);
+			}
+			const windowClosesAt =
+				batch.windowEnd !== undefined
+					? batch.windowEnd + (batch.config.eventTimeWindow?.allowedLatenessMs ?? 0)
+					: undefined;
+			// pauseBatch cancelled retry timers too; batches in backoff get theirs back
+			const scheduledFlushId =
+				batch.nextRetryAt !== undefined && batch.nextRetryAt > now
+					? await ctx.scheduler.runAt(batch.nextRetryAt, internal.lib.maybeFlush, {
+							batchDocId: batch._id,
+							force: true,
+							retry: true,
+						})
+					: windowClosesAt !== undefined && windowClosesAt > now
+						? await scheduleFlushTimer(ctx, batch)
+						: await ctx.scheduler.runAfter(0, internal.lib.maybeFlush, {
+								batchDocId: batch._id,
+								force: true,
+							});
+			await ctx.db.patch(batch._id, { scheduledFlushId });
+		}
+
+		return { batchId: baseBatchId, paused: false };
+	},
+});
+
 export const deleteBatch = mutation({
 	args: { batchId: v.string() },
 	handler: async (ctx, { batchId }) => {
@@ -320,7 +2494,7 @@ export const deleteBatch = mutation({
 			.collect();
 		const itemCount = batchItems.reduce((sum, doc) => sum + doc.itemCount, 0);
 
-		if (batch.status === "accumulating" && itemCount > 0) {
+		if ((batch.status === "accumulating" || batch.status === "handle_invalid") && itemCount > 0) {
 			return { deleted: false, reason: "Cannot delete batch with pending items" };
 		}
 
@@ -332,9 +2506,393 @@ export const deleteBatch = mutation({
 		for (const item of batchItems) {
 			await ctx.db.delete(item._id);
 		}
+		await deleteCounterShards(ctx, batch._id);
+
+		await ctx.db.delete(batch._id);
+		return { deleted: true };
+	},
+});
+
+// ============================================================================
+// Dead Letter Queue - Public API
+// ============================================================================
+
+export const listDeadLetters = query({
+	args: {
+		baseBatchId: v.optional(v.string()),
+		limit: v.optional(v.number()),
+	},
+	handler: async (ctx, { baseBatchId, limit }) => {
+		const query = baseBatchId
+			? ctx.db
+					.query("deadLetters")
+					.withIndex("by_baseBatchId", (q) => q.eq("baseBatchId", baseBatchId))
+					.order("desc")
+			: ctx.db.query("deadLetters").withIndex("by_deadLetteredAt").order("desc");
+
+		const deadLetters = limit ? await query.take(limit) : await query.collect();
+
+		return deadLetters.map((deadLetter) => ({
+			deadLetterId: deadLetter._id,
+			batchId: deadLetter.batchId,
+			baseBatchId: deadLetter.baseBatchId,
+			partitionKey: deadLetter.partitionKey,
+			itemCount: deadLetter.itemCount,
+			attempts: deadLetter.attempts,
+			lastErrorMessage: deadLetter.lastErrorMessage,
+			createdAt: deadLetter.createdAt,
+			deadLetteredAt: deadLetter.deadLetteredAt,
+		}));
+	},
+});
+
+export const getDeadLetter = query({
+	args: { deadLetterId: v.id("deadLetters") },
+	handler: async (ctx, { deadLetterId }) => {
+		const deadLetter = await ctx.db.get(deadLetterId);
+		if (!deadLetter) {
+			return null;
+		}
+
+		const itemDocs = await ctx.db
+			.query("deadLetterItems")
+			.withIndex("by_deadLetterId_createdAt", (q) => q.eq("deadLetterId", deadLetterId))
+			.collect();
+
+		const items: unknown[] = [];
+		for (const doc of itemDocs) {
+			items.push(...doc.items);
+		}
+
+		return {
+			deadLetterId: deadLetter._id,
+			batchId: deadLetter.batchId,
+			baseBatchId: deadLetter.baseBatchId,
+			partitionKey: deadLetter.partitionKey,
+			itemCount: deadLetter.itemCount,
+			attempts: deadLetter.attempts,
+			lastErrorMessage: deadLetter.lastErrorMessage,
+			createdAt: deadLetter.createdAt,
+			deadLetteredAt: deadLetter.deadLetteredAt,
+			failedAttempts: deadLetter.failedAttempts,
+			items,
+		};
+	},
+});
+
+/**
+ * replayDeadLetter - Moves the items of a dead letter back into the accumulating batch
+ * for its base ID and schedules an immediate flush. The dead letter is removed.
+ *
+ * If no batch is accumulating, one is created with the caller's current config, like
+ * addItems does. Without one, the config captured when the items were dead-lettered is
+ * used.
+ */
+export const replayDeadLetter = mutation({
+	args: {
+		deadLetterId: v.id("deadLetters"),
+		config: v.optional(batchConfigValidator),
+	},
+	handler: async (ctx, { deadLetterId, config: currentConfig }) => {
+		const deadLetter = await ctx.db.get(deadLetterId);
+		if (!deadLetter) {
+			return { replayed: false, itemCount: 0, reason: "Dead letter not found" };
+		}
+		const config = currentConfig ?? deadLetter.config;
+
+		const now = Date.now();
+		// Items are replayed into their original partition (and event-time window)
+		const { windowStart, windowEnd } = deadLetter;
+		const window =
+			config.eventTimeWindow && windowStart !== undefined && windowEnd !== undefined
+				? { windowStart, windowEnd }
+				: undefined;
+		const batch = await getOrCreateAccumulatingBatch(
+			ctx,
+			deadLetter.baseBatchId,
+			config,
+			now,
+			{ partitionKey: deadLetter.partitionKey, window }
+		);
+
+		const itemDocs = await ctx.db
+			.query("deadLetterItems")
+			.withIndex("by_deadLetterId_createdAt", (q) => q.eq("deadLetterId", deadLetterId))
+			.collect();
+
+		const { cumulativeFlushThreshold, maxBatchBytes } = batch.config;
+		for (const doc of itemDocs) {
+			// Measured and counted like in addItems
+			const byteSize = maxBatchBytes !== undefined ? getByteSize(doc.items) : undefined;
+			await ctx.db.insert("batchItems", {
+				batchDocId: batch._id,
+				items: doc.items,
+				itemCount: doc.itemCount,
+				byteSize,
+				createdAt: now,
+			});
+			if (cumulativeFlushThreshold !== undefined || maxBatchBytes !== undefined) {
+				await incrementCounterShard(ctx, batch, doc.itemCount, byteSize ?? 0);
+			}
+			await ctx.db.delete(doc._id);
+		}
+		await ctx.db.delete(deadLetterId);
+
+		await ctx.scheduler.runAfter(0, internal.lib.maybeFlush, {
+			batchDocId: batch._id,
+			force: true,
+		});
+
+		return { replayed: true, itemCount: deadLetter.itemCount };
+	},
+});
+
+/**
+ * purgeDeadLetters - Permanently deletes dead letters (and their items), optionally
+ * restricted to a base batch ID and/or to dead letters older than a timestamp.
+ *
+ * At most 100 dead letters are deleted per call; `hasMore` indicates whether
+ * another call is needed.
+ */
+export const purgeDeadLetters = mutation({
+	args: {
+		baseBatchId: v.optional(v.string()),
+		olderThan: v.optional(v.number()),
+	},
+	handler: async (ctx, { baseBatchId, olderThan }) => {
+		const limit = 100;
+		const query = baseBatchId
+			? ctx.db.query("deadLetters").withIndex("by_baseBatchId", (q) => {
+					const byBase = q.eq("baseBatchId", baseBatchId);
+					return olderThan !== undefined ? byBase.lt("deadLetteredAt", olderThan) : byBase;
+				})
+			: ctx.db
+					.query("deadLetters")
+					.withIndex("by_deadLetteredAt", (q) =>
+						olderThan !== undefined ? q.lt("deadLetteredAt", olderThan) : q
+					);
+
+		const deadLetters = await query.take(limit + 1);
+		const toPurge = deadLetters.slice(0, limit);
+
+		for (const deadLetter of toPurge) {
+			const itemDocs = await ctx.db
+				.query("deadLetterItems")
+				.withIndex("by_deadLetterId_createdAt", (q) => q.eq("deadLetterId", deadLetter._id))
+				.collect();
+			for (const doc of itemDocs) {
+				await ctx.db.delete(doc._id);
+			}
+			await ctx.db.delete(deadLetter._id);
+		}
+
+		return { purged: toPurge.length, hasMore: deadLetters.length > limit };
+	},
+});
+
+// ============================================================================
+// Component Settings - Public API
+// ============================================================================
+
+/**
+ * configure - Sets component-wide settings, replacing the previous ones (omitted fields
+ * are cleared).
+ *
+ * maxConcurrentFlushes limits the number of batches flushing at once across all batch IDs
+ * and processors. Batches over the limit wait in a queue and flush in order as slots free
+ * up; per-processor limits are set with maxConcurrentFlushes in the batch config.
+ */
+export const configure = mutation({
+	args: {
+		maxConcurrentFlushes: v.optional(v.number()),
+	},
+	handler: async (ctx, { maxConcurrentFlushes }) => {
+		const existing = await ctx.db.query("globalConfig").first();
+		if (existing) {
+			await ctx.db.replace(existing._id, { maxConcurrentFlushes });
+		} else {
+			await ctx.db.insert("globalConfig", { maxConcurrentFlushes });
+		}
+
+		// A raised (or removed) limit may free slots for queued batches
+		await wakeQueuedFlushes(ctx);
+		return { maxConcurrentFlushes };
+	},
+});
+
+/**
+ * getCircuitBreakerState - Returns the circuit breaker state of a processBatch (see
+ * circuitBreaker in the batch config). Processors without failures are "closed".
+ */
+export const getCircuitBreakerState = query({
+	args: { processBatchHandle: v.string() },
+	handler: async (ctx, { processBatchHandle }) => {
+		const breaker = await getCircuitBreaker(ctx.db, processBatchHandle);
+		const probe = breaker?.probeBatchDocId ? await ctx.db.get(breaker.probeBatchDocId) : null;
+		const blocked = await ctx.db
+			.query("batches")
+			.withIndex("by_processBatchHandle_circuitBlockedAt", (q) =>
+				q.eq("config.processBatchHandle", processBatchHandle).gt("circuitBlockedAt", 0)
+			)
+			.collect();
+
+		return {
+			state: breaker?.state ?? ("closed" as const),
+			consecutiveFailures: breaker?.consecutiveFailures ?? 0,
+			openedAt: breaker?.openedAt,
+			reopensAt: breaker?.reopensAt,
+			probeBatchId: probe?.batchId,
+			blockedBatchCount: blocked.length,
+		};
+	},
+});
+
+// ============================================================================
+// Handle Recovery - Public API
+// ============================================================================
+
+/**
+ * listInvalidHandles - Lists the handles that batches and iterator jobs in the
+ * "handle_invalid" state failed to resolve, i.e. the handles to pass to rebindHandle.
+ */
+export const listInvalidHandles = query({
+	args: {},
+	handler: async (ctx) => {
+		const handles = new Map<string, { handle: string; batchCount: number; jobCount: number }>();
+		const entry = (handle: string) => {
+			let existing = handles.get(handle);
+			if (!existing) {
+				existing = { handle, batchCount: 0, jobCount: 0 };
+				handles.set(handle, existing);
+			}
+			return existing;
+		};
+
+		const batches = await ctx.db
+			.query("batches")
+			.withIndex("by_status_processBatchHandle", (q) => q.eq("status", "handle_invalid"))
+			.collect();
+		for (const batch of batches) {
+			// Batches parked before the handle was recorded failed on processBatch
+			entry(batch.invalidHandle ?? batch.config.processBatchHandle).batchCount++;
+		}
+		const jobs = await ctx.db
+			.query("iteratorJobs")
+			.withIndex("by_status", (q) => q.eq("status", "handle_invalid"))
+			.collect();
+		for (const job of jobs) {
+			entry(job.invalidHandle ?? job.config.processBatchHandle).jobCount++;
+		}
+
+		return [...handles.values()];
+	},
+});
+
+/**
+ * rebindHandle - Replaces a function handle (e.g. of a renamed or moved processBatch) with
+ * a new one in all unfinished batches and iterator jobs using it, in any of their handle
+ * fields. The stored batch configs (see resolveBatchConfig) and dead letters are rebound
+ * too, so new batches and replays don't bring the old handle back. Batches and jobs in
+ * the "handle_invalid" state resume: batches are flushed and jobs continue from their
+ * cursor. Rebinding a handle to itself just resumes them.
+ */
+export const rebindHandle = mutation({
+	args: {
+		oldHandle: v.string(),
+		newHandle: v.string(),
+	},
+	handler: async (ctx, { oldHandle, newHandle }) => {
+		const now = Date.now();
+		const rebind = <H extends string | undefined>(handle: H): H =>
+			(handle === oldHandle ? newHandle : handle) as H;
+
+		// All unfinished batches are checked, since the old handle may be in any handle field
+		const batches: Doc<"batches">[] = [];
+		for (const status of ["accumulating", "flushing", "handle_invalid"] as const) {
+			const statusBatches = await ctx.db
+				.query("batches")
+				.withIndex("by_status_processBatchHandle", (q) => q.eq("status", status))
+				.collect();
+			batches.push(
+				...statusBatches.filter((batch) => getConfigHandles(batch.config).includes(oldHandle))
+			);
+		}
+
+		for (const batch of batches) {
+			const config = rebindConfigHandles(batch.config, oldHandle, newHandle);
+			if (batch.status !== "handle_invalid") {
+				await ctx.db.patch(batch._id, { config, lastUpdatedAt: now });
+				continue;
+			}
+			// Resumed batches are flushed right away
+			const scheduledFlushId = await ctx.scheduler.runAfter(0, internal.lib.maybeFlush, {
+				batchDocId: batch._id,
+				force: true,
+			});
+			await ctx.db.patch(batch._id, {
+				config,
+				status: "accumulating",
+				invalidHandle: undefined,
+				scheduledFlushId,
+				lastUpdatedAt: now,
+			});
+		}
+
+		for (const state of await ctx.db.query("batchConfigs").collect()) {
+			const { clientConfig, updates } = state;
+			if (
+				(clientConfig && getConfigHandles(clientConfig).includes(oldHandle)) ||
+				(updates && getConfigHandles(updates).includes(oldHandle))
+			) {
+				await ctx.db.patch(state._id, {
+					clientConfig: clientConfig && rebindConfigHandles(clientConfig, oldHandle, newHandle),
+					updates: updates && rebindConfigHandles(updates, oldHandle, newHandle),
+				});
+			}
+		}
+		for (const deadLetter of await ctx.db.query("deadLetters").collect()) {
+			if (getConfigHandles(deadLetter.config).includes(oldHandle)) {
+				await ctx.db.patch(deadLetter._id, {
+					config: rebindConfigHandles(deadLetter.config, oldHandle, newHandle),
+				});
+			}
+		}
 
-		await ctx.db.delete(batch._id);
-		return { deleted: true };
+		let jobCount = 0;
+		for (const status of ["pending", "running", "paused", "handle_invalid"] as const) {
+			const jobs = await ctx.db
+				.query("iteratorJobs")
+				.withIndex("by_status", (q) => q.eq("status", status))
+				.collect();
+			for (const job of jobs) {
+				const { getNextBatchHandle, processBatchHandle, onCompleteHandle } = job.config;
+				if (![getNextBatchHandle, processBatchHandle, onCompleteHandle].includes(oldHandle)) {
+					continue;
+				}
+				jobCount++;
+				const config = {
+					...job.config,
+					getNextBatchHandle: rebind(getNextBatchHandle),
+					processBatchHandle: rebind(processBatchHandle),
+					onCompleteHandle: rebind(onCompleteHandle),
+				};
+				if (status !== "handle_invalid") {
+					await ctx.db.patch(job._id, { config });
+					continue;
+				}
+				await ctx.db.patch(job._id, {
+					config,
+					status: "running",
+					retryCount: 0,
+					errorMessage: undefined,
+					invalidHandle: undefined,
+					lastRunAt: now,
+				});
+				await ctx.scheduler.runAfter(0, internal.lib.processNextBatch, { jobDocId: job._id });
+			}
+		}
+
+		return { batchCount: batches.length, jobCount };
 	},
 });
 
@@ -354,29 +2912,107 @@ export const getBatch = internalQuery({
 
 export const collectBatchItems = internalQuery({
 	args: { batchDocId: v.id("batches") },
-	handler: async (ctx, { batchDocId }) => {
+	handler: async (ctx, { batchDocId }): Promise<FlushChunk> => {
 		const batch = await ctx.db.get(batchDocId);
 		if (!batch) {
-			return { items: [], flushStartedAt: undefined };
+			return {
+				items: [],
+				sourceItemCount: 0,
+				byteSize: 0,
+				flushStartedAt: undefined,
+				rateLimited: false,
+			};
 		}
+		return await collectFlushChunk(ctx.db, batch);
+	},
+});
 
-		const flushStartedAt = batch.flushStartedAt ?? Date.now();
+/**
+ * acknowledgeFlushChunk - Removes a successfully delivered chunk from the batch.
+ *
+ * Because delivered chunks are deleted as soon as they are acknowledged, a flush that is
+ * interrupted (or fails on a later chunk) resumes from the next undelivered chunk instead
+ * of redelivering everything.
+ */
+export const acknowledgeFlushChunk = internalMutation({
+	args: {
+		batchDocId: v.id("batches"),
+		flushStartedAt: v.number(),
+		itemCount: v.number(),
+	},
+	handler: async (ctx, { batchDocId, flushStartedAt, itemCount }) => {
+		const batch = await ctx.db.get(batchDocId);
+		if (!batch || batch.status !== "flushing" || batch.flushStartedAt !== flushStartedAt) {
+			return { acknowledged: false };
+		}
 
-		// Get all batchItems created before flushStartedAt
-		const batchItemDocs = await ctx.db
-			.query("batchItems")
-			.withIndex("by_batchDocId_createdAt", (q) =>
-				q.eq("batchDocId", batchDocId).lt("createdAt", flushStartedAt + 1)
-			)
-			.collect();
+		await acknowledgeChunk(ctx, batch, flushStartedAt, itemCount);
+		return { acknowledged: true };
+	},
+});
 
-		// Flatten all items from the batchItem documents
-		const items: unknown[] = [];
-		for (const doc of batchItemDocs) {
-			items.push(...doc.items);
+/**
+ * deliverChunkToMutation - Delivers the next chunk of a flush to a mutation processBatch
+ * (processBatchType "mutation") and acknowledges it in the same transaction, so the
+ * mutation's writes and the removal of the delivered items commit together: each item
+ * is processed exactly once. If processBatch throws, its writes are rolled back and
+ * nothing is removed.
+ */
+export const deliverChunkToMutation = internalMutation({
+	args: {
+		batchDocId: v.id("batches"),
+		flushStartedAt: v.number(),
+		itemCount: v.number(),
+	},
+	handler: async (ctx, { batchDocId, flushStartedAt, itemCount }): Promise<ChunkDelivery> => {
+		const batch = await ctx.db.get(batchDocId);
+		if (!batch || batch.status !== "flushing" || batch.flushStartedAt !== flushStartedAt) {
+			return { failed: false, acknowledged: false };
+		}
+		const chunk = await collectFlushChunk(ctx.db, batch);
+		if (chunk.sourceItemCount !== itemCount) {
+			return { failed: false, acknowledged: false };
 		}
 
-		return { items, flushStartedAt };
+		const handle = batch.config.processBatchHandle as FunctionHandle<"mutation", ProcessBatchArgs>;
+		const delivery = await deliverFlushChunk(ctx, chunk, (args) =>
+			callHandle(handle, () => ctx.runMutation(handle, args))
+		);
+		if (delivery.failed) {
+			// The items processBatch reported as succeeded are removed right away as well
+			if (delivery.failedIndexes) {
+				await removeDeliveredItems(ctx, batchDocId, flushStartedAt, itemCount, delivery.failedIndexes);
+				return { ...delivery, deliveredItemsRemoved: true };
+			}
+			return delivery;
+		}
+
+		await acknowledgeChunk(ctx, batch, flushStartedAt, itemCount);
+		return { ...delivery, acknowledged: true };
+	},
+});
+
+/**
+ * takeFlushRateLimit - Takes the rate limit tokens for the next chunk of a flush.
+ * Returns how long to wait (ms) if the budget is exhausted, 0 if the chunk may be delivered.
+ */
+export const takeFlushRateLimit = internalMutation({
+	args: {
+		batchDocId: v.id("batches"),
+		itemCount: v.number(),
+	},
+	handler: async (ctx, { batchDocId, itemCount }): Promise<{ waitMs: number }> => {
+		const batch = await ctx.db.get(batchDocId);
+		if (!batch?.config.rateLimit) {
+			return { waitMs: 0 };
+		}
+		const waitMs = await takeRateLimitTokens(
+			ctx,
+			batch.config.processBatchHandle,
+			batch.config.rateLimit,
+			itemCount
+		);
+		return { waitMs };
 	},
 });
 
@@ -427,9 +3063,11 @@ export const maybeFlush = internalAction({
 	args: {
 		batchDocId: v.id("batches"),
 		force: v.optional(v.boolean()),
+		timer: v.optional(v.boolean()), // Scheduled by scheduleFlushTimer
+		retry: v.optional(v.boolean()), // Scheduled by retryOrDeadLetter (retryPolicy)
 	},
-	handler: async (ctx, { batchDocId, force }): Promise<void> => {
-		console.log("[maybeFlush] START", { batchDocId, force });
+	handler: async (ctx, { batchDocId, force, timer, retry }): Promise<void> => {
+		console.log("[maybeFlush] START", { batchDocId, force, timer, retry });
 
 		// Call the mutation directly - Convex handles OCC retries automatically.
 		// If another maybeFlush already transitioned this batch, the mutation
@@ -437,6 +3075,8 @@ export const maybeFlush = internalAction({
 		const result = await ctx.runMutation(internal.lib.doFlushTransition, {
 			batchDocId,
 			force: force ?? false,
+			timer,
+			retry,
 		});
 
 		console.log("[maybeFlush] doFlushTransition result", result);
@@ -477,8 +3117,10 @@ export const doFlushTransition = internalMutation({
 	args: {
 		batchDocId: v.id("batches"),
 		force: v.optional(v.boolean()),
+		timer: v.optional(v.boolean()),
+		retry: v.optional(v.boolean()),
 	},
-	handler: async (ctx, { batchDocId, force }): Promise<FlushTransitionResult> => {
+	handler: async (ctx, { batchDocId, force, timer, retry }): Promise<FlushTransitionResult> => {
 		console.log("[doFlushTransition] START", { batchDocId, force });
 
 		const batch = await ctx.db.get(batchDocId);
@@ -501,7 +3143,15 @@ export const doFlushTransition = internalMutation({
 			.withIndex("by_batchDocId", (q) => q.eq("batchDocId", batchDocId))
 			.collect();
 		const totalCount = batchItemDocs.reduce((sum, doc) => sum + doc.itemCount, 0);
-		console.log("[doFlushTransition] Item count", { totalCount, batchItemDocs: batchItemDocs.length });
+		const totalBytes =
+			batch.config.maxBatchBytes !== undefined
+				? batchItemDocs.reduce((sum, doc) => sum + getDocByteSize(doc), 0)
+				: 0;
+		console.log("[doFlushTransition] Item count", {
+			totalCount,
+			totalBytes,
+			batchItemDocs: batchItemDocs.length,
+		});
 
 		// Empty batch? Nothing to flush.
 		if (totalCount === 0) {
@@ -509,15 +3159,140 @@ export const doFlushTransition = internalMutation({
 			return { flushed: false, reason: "empty" };
 		}
 
+		// Paused (see pauseBatch)? The flush is skipped; resumeBatch flushes the batch later.
+		if (await getPause(ctx.db, batch.baseBatchId)) {
+			console.log("[doFlushTransition] EARLY RETURN - paused");
+			if (batch.flushQueuedAt !== undefined) {
+				await ctx.db.patch(batchDocId, { flushQueuedAt: undefined });
+			}
+			return { flushed: false, reason: "paused" };
+		}
+
+		// Retry backoff (retryPolicy): until nextRetryAt only the retry timer flushes the
+		// batch, so thresholds and manual flushes don't defeat the backoff
+		if (!retry && batch.nextRetryAt !== undefined && batch.nextRetryAt > Date.now()) {
+			console.log("[doFlushTransition] EARLY RETURN - backoff", { nextRetryAt: batch.nextRetryAt });
+			return { flushed: false, reason: "backoff" };
+		}
+
+		// Debounce mode: the timer flushes once no items arrived for debounceMs, or once the
+		// oldest pending item has waited maxWaitMs. Otherwise it is pushed back.
+		// (A flush schedule takes precedence over debouncing.)
+		const { debounceMs, maxWaitMs } = batch.config;
+		if (timer && debounceMs !== undefined && !batch.config.flushSchedule) {
+			const now = Date.now();
+			let oldestItemAt = Number.POSITIVE_INFINITY;
+			let latestItemAt = 0;
+			for (const doc of batchItemDocs) {
+				oldestItemAt = Math.min(oldestItemAt, doc.createdAt);
+				latestItemAt = Math.max(latestItemAt, doc.createdAt);
+			}
+			const flushAt = Math.min(
+				latestItemAt + debounceMs,
+				maxWaitMs !== undefined ? oldestItemAt + maxWaitMs : Number.POSITIVE_INFINITY
+			);
+			if (flushAt > now) {
+				console.log("[doFlushTransition] EARLY RETURN - debouncing", { flushAt });
+				const scheduledFlushId = await ctx.scheduler.runAfter(
+					flushAt - now,
+					internal.lib.maybeFlush,
+					{ batchDocId, force: true, timer: true }
+				);
+				await ctx.db.patch(batchDocId, { scheduledFlushId });
+				return { flushed: false, reason: "debouncing" };
+			}
+		}
+
 		// Not at threshold? Skip only if not forced (interval flush uses force=true).
-		const threshold = batch.config.immediateFlushThreshold ?? batch.config.maxBatchSize;
-		if (!force && threshold !== undefined && totalCount < threshold) {
+		if (!force && !isAtFlushThreshold(batch.config, totalCount, totalBytes)) {
 			console.log("[doFlushTransition] EARLY RETURN - below_threshold");
 			return { flushed: false, reason: "below_threshold" };
 		}
 
-		// Cancel scheduled timer if exists
-		if (batch.scheduledFlushId) {
+		// Ordered mode: one flush at a time per base batch ID, oldest sequence first. The
+		// batch waits for the older ones and is woken when the previous sequence completes.
+		if (batch.config.ordered && (await hasOlderPendingSequence(ctx.db, batch))) {
+			console.log("[doFlushTransition] EARLY RETURN - waiting_for_older_sequence");
+			if (batch.orderBlockedAt === undefined) {
+				// Blocked batches are not queued for a flush slot meanwhile
+				await ctx.db.patch(batchDocId, { orderBlockedAt: Date.now(), flushQueuedAt: undefined });
+			}
+			return { flushed: false, reason: "waiting_for_older_sequence" };
+		}
+
+		// Circuit breaker: while it is open (or half-open with a probe flush in progress) the
+		// batch waits, and is woken when the cool-down ends or the breaker closes
+		if (batch.config.circuitBreaker) {
+			const now = Date.now();
+			const circuit = await checkCircuitBreaker(ctx, batch, now);
+			if (!circuit.allowed) {
+				console.log("[doFlushTransition] EARLY RETURN - circuit_open", circuit);
+				if (batch.circuitBlockedAt === undefined) {
+					// Blocked batches are not queued for a flush slot meanwhile
+					await ctx.db.patch(batchDocId, { circuitBlockedAt: now, flushQueuedAt: undefined });
+					if (circuit.retryAt !== undefined) {
+						await ctx.scheduler.runAt(circuit.retryAt, internal.lib.maybeFlush, {
+							batchDocId,
+							force: true,
+						});
+					}
+				}
+				return { flushed: false, reason: "circuit_open" };
+			}
+		}
+
+		// Concurrency limits: without a free slot the batch is queued (it keeps accumulating)
+		// and woken in queue order when a flush ends. To keep the queue fair, batches that
+		// aren't queued also wait while others are.
+		const globalConfig = await ctx.db.query("globalConfig").first();
+		const globalLimit = globalConfig?.maxConcurrentFlushes;
+		if (globalLimit !== undefined || batch.config.maxConcurrentFlushes !== undefined) {
+			const queueAhead =
+				batch.flushQueuedAt === undefined &&
+				(await ctx.db
+					.query("batches")
+					.withIndex("by_flushQueuedAt", (q) => q.gt("flushQueuedAt", 0))
+					.first()) !== null;
+			if (queueAhead || !(await hasFreeFlushSlot(ctx.db, globalLimit, batch.config))) {
+				console.log("[doFlushTransition] EARLY RETURN - queued");
+				if (batch.flushQueuedAt === undefined) {
+					// Past the circuit breaker and older sequences, the batch only waits for a slot now
+					await ctx.db.patch(batchDocId, {
+						flushQueuedAt: Date.now(),
+						circuitBlockedAt: undefined,
+						orderBlockedAt: undefined,
+					});
+				}
+				if (queueAhead) {
+					// The queue may only be waiting on other processors' limits
+					await wakeQueuedFlushes(ctx);
+				}
+				return { flushed: false, reason: "queued" };
+			}
+		}
+
+		// Rate limit: the first chunk's tokens are taken here, atomically with the transition.
+		// Without enough budget the flush is retried once the bucket has refilled.
+		if (batch.config.rateLimit) {
+			const chunkSize = Math.min(totalCount, batch.config.maxItemsPerFlush ?? totalCount);
+			const waitMs = await takeRateLimitTokens(
+				ctx,
+				batch.config.processBatchHandle,
+				batch.config.rateLimit,
+				chunkSize
+			);
+			if (waitMs > 0) {
+				console.log("[doFlushTransition] EARLY RETURN - rate_limited", { waitMs });
+				await ctx.scheduler.runAfter(waitMs, internal.lib.maybeFlush, { batchDocId, force: true });
+				return { flushed: false, reason: "rate_limited" };
+			}
+		}
+
+		// Cancel scheduled timer if exists (unless it's the timer running this transition)
+		const timerState = batch.scheduledFlushId
+			? (await ctx.db.system.get(batch.scheduledFlushId))?.state.kind
+			: undefined;
+		if (batch.scheduledFlushId && timerState === "pending") {
 			console.log("[doFlushTransition] Cancelling scheduled timer", batch.scheduledFlushId);
 			await ctx.scheduler.cancel(batch.scheduledFlushId);
 		}
@@ -527,8 +3302,13 @@ export const doFlushTransition = internalMutation({
 		await ctx.db.patch(batchDocId, {
 			status: "flushing",
 			flushStartedAt: now,
+			flushLeaseExpiresAt: now + getFlushLeaseMs(batch.config),
 			lastUpdatedAt: now,
 			scheduledFlushId: undefined,
+			nextRetryAt: undefined,
+			flushQueuedAt: undefined,
+			circuitBlockedAt: undefined,
+			orderBlockedAt: undefined,
 		});
 		console.log("[doFlushTransition] Patched batch to flushing");
 
@@ -548,48 +3328,119 @@ export const executeFlush = internalAction({
 		batchDocId: v.id("batches"),
 		processBatchHandle: v.string(),
 	},
-	handler: async (ctx, { batchDocId, processBatchHandle }) => {
+	handler: async (
+		ctx,
+		{ batchDocId, processBatchHandle }
+	): Promise<{ success: boolean; errorMessage?: string; durationMs: number }> => {
 		console.log("[executeFlush] ENTERED", { batchDocId, processBatchHandle });
 
 		const startTime = Date.now();
 		let success = true;
 		let errorMessage: string | undefined;
+		let failedIndexes: number[] | undefined;
+		let failedChunkSize: number | undefined;
+		let failedChunk: FailedChunk | undefined;
+		let flushStartedAt: number | undefined;
+		let itemCount = 0;
+		let byteSize = 0;
+		let chunkCount = 0;
+		let duplicatesDropped = 0;
+		let rateLimitedUntil: number | undefined;
+		let deliveredItemsRemoved: boolean | undefined;
+		// Return value of the last processBatch call
+		let result: unknown;
+		// Set when processBatch or the merge query couldn't be resolved
+		let invalidHandle: string | undefined;
+
+		const handle = processBatchHandle as FunctionHandle<"action", ProcessBatchArgs>;
+
+		// Deliver the flush chunk by chunk (a single chunk unless maxItemsPerFlush is set),
+		// stopping at the first chunk that fails
+		while (true) {
+			console.log("[executeFlush] Collecting batch items...");
+			const chunk: FlushChunk = await ctx.runQuery(internal.lib.collectBatchItems, { batchDocId });
+			console.log("[executeFlush] Collected items", { count: chunk.items.length });
+
+			flushStartedAt = chunk.flushStartedAt;
+			if (chunk.items.length === 0 || flushStartedAt === undefined) {
+				break;
+			}
 
-		// Collect items from batchItems table
-		console.log("[executeFlush] Collecting batch items...");
-		const { items, flushStartedAt } = await ctx.runQuery(internal.lib.collectBatchItems, {
-			batchDocId,
-		});
-		console.log("[executeFlush] Collected items", { count: items.length });
+			// Later chunks need their own rate limit tokens (doFlushTransition took the first
+			// chunk's). Without them, the rest of the flush is delivered once they're available.
+			if (chunk.rateLimited && chunkCount > 0) {
+				const { waitMs }: { waitMs: number } = await ctx.runMutation(
+					internal.lib.takeFlushRateLimit,
+					{ batchDocId, itemCount: chunk.sourceItemCount }
+				);
+				if (waitMs > 0) {
+					rateLimitedUntil = Date.now() + waitMs;
+					break;
+				}
+			}
 
-		if (items.length === 0) {
-			await ctx.runMutation(internal.lib.recordFlushResult, {
-				batchDocId,
-				itemCount: 0,
-				durationMs: 0,
-				success: true,
-				flushStartedAt,
-			});
-			return { success: true, durationMs: 0 };
-		}
+			itemCount += chunk.sourceItemCount;
+			byteSize += chunk.byteSize;
+			chunkCount++;
+			duplicatesDropped += chunk.sourceItemCount - chunk.items.length;
+
+			// A mutation processBatch is called from a mutation that also acknowledges the chunk
+			const delivery: ChunkDelivery =
+				chunk.processBatchType === "mutation"
+					? await ctx.runMutation(internal.lib.deliverChunkToMutation, {
+							batchDocId,
+							flushStartedAt,
+							itemCount: chunk.sourceItemCount,
+						})
+					: await deliverFlushChunk(ctx, chunk, (args) =>
+							callHandle(handle, () => ctx.runAction(handle, args))
+						);
+			result = delivery.result;
+
+			if (delivery.failed) {
+				success = false;
+				errorMessage = delivery.errorMessage;
+				failedIndexes = delivery.failedIndexes;
+				failedChunkSize = chunk.sourceItemCount;
+				failedChunk = getFailedChunk(chunk);
+				deliveredItemsRemoved = delivery.deliveredItemsRemoved;
+				invalidHandle = delivery.invalidHandle;
+				break;
+			}
 
-		try {
-			const handle = processBatchHandle as FunctionHandle<"action", { items: unknown[] }>;
-			await ctx.runAction(handle, { items });
-		} catch (error) {
-			success = false;
-			errorMessage = error instanceof Error ? error.message : String(error);
+			const { acknowledged } =
+				chunk.processBatchType === "mutation"
+					? { acknowledged: delivery.acknowledged === true }
+					: await ctx.runMutation(internal.lib.acknowledgeFlushChunk, {
+							batchDocId,
+							flushStartedAt,
+							itemCount: chunk.sourceItemCount,
+						});
+			if (!acknowledged) {
+				// The batch left the flushing state (e.g. it was recovered); stop delivering
+				break;
+			}
 		}
 
 		const durationMs = Date.now() - startTime;
 
 		await ctx.runMutation(internal.lib.recordFlushResult, {
 			batchDocId,
-			itemCount: items.length,
+			itemCount,
+			byteSize,
+			chunkCount,
+			duplicatesDropped: duplicatesDropped > 0 ? duplicatesDropped : undefined,
 			durationMs,
 			success,
 			errorMessage,
 			flushStartedAt,
+			failedChunkSize,
+			failedIndexes,
+			deliveredItemsRemoved,
+			rateLimitedUntil,
+			failedChunk,
+			...capFlushResult(result),
+			invalidHandle,
 		});
 
 		return { success, errorMessage, durationMs };
@@ -599,115 +3450,308 @@ export const executeFlush = internalAction({
 export const recordFlushResult = internalMutation({
 	args: {
 		batchDocId: v.id("batches"),
-		itemCount: v.number(),
+		itemCount: v.number(), // Items taken from the batch, across all chunks
+		byteSize: v.optional(v.number()),
+		chunkCount: v.optional(v.number()),
+		duplicatesDropped: v.optional(v.number()), // Of itemCount, collapsed by dedupeBy
 		durationMs: v.number(),
 		success: v.boolean(),
 		errorMessage: v.optional(v.string()),
 		flushStartedAt: v.optional(v.number()),
+		// Size of the chunk that failed (earlier chunks were acknowledged)
+		failedChunkSize: v.optional(v.number()),
+		// Set when processBatch reported individual failed items (indexes into the failed chunk)
+		failedIndexes: v.optional(v.array(v.number())),
+		// Set when the delivered items of the failed chunk were already removed (by
+		// deliverChunkToMutation)
+		deliveredItemsRemoved: v.optional(v.boolean()),
+		// Set when the rate limit stopped a successful flush before its last chunk
+		rateLimitedUntil: v.optional(v.number()),
+		// The chunk that failed, with includeMetadata (see getFailedChunk)
+		failedChunk: v.optional(failedChunkValidator),
+		// Return value of the last processBatch call (see capFlushResult)
+		result: v.optional(v.any()),
+		resultOmitted: v.optional(v.boolean()),
+		// Set when processBatch or the merge query couldn't be resolved: its handle
+		invalidHandle: v.optional(v.string()),
 	},
-	handler: async (ctx, { batchDocId, itemCount, durationMs, success, errorMessage, flushStartedAt }) => {
-		const batch = await ctx.db.get(batchDocId);
-		if (!batch) return;
-
-		await ctx.db.insert("flushHistory", {
-			batchId: batch.baseBatchId, // Store client's original ID, not internal sequence
+	handler: async (
+		ctx,
+		{
+			batchDocId,
 			itemCount,
-			flushedAt: Date.now(),
+			byteSize,
+			chunkCount,
+			duplicatesDropped,
 			durationMs,
 			success,
 			errorMessage,
-		});
-
-		if (success) {
-			// Delete all batchItems that were included in this flush (created before flushStartedAt)
-			const cutoffTime = flushStartedAt ?? batch.flushStartedAt ?? Date.now();
-			const batchItemsToDelete = await ctx.db
-				.query("batchItems")
-				.withIndex("by_batchDocId_createdAt", (q) =>
-					q.eq("batchDocId", batchDocId).lt("createdAt", cutoffTime + 1)
-				)
-				.collect();
+			flushStartedAt,
+			failedChunkSize,
+			failedIndexes,
+			deliveredItemsRemoved,
+			rateLimitedUntil,
+			failedChunk,
+			result,
+			resultOmitted,
+			invalidHandle,
+		}
+	) => {
+		const batch = await ctx.db.get(batchDocId);
+		if (!batch) return;
 
-			for (const item of batchItemsToDelete) {
-				await ctx.db.delete(item._id);
-			}
+		// A flush that was recovered by recoverStuckFlushes (or superseded by a newer one)
+		// no longer owns the batch; its result was already recorded as abandoned
+		if (
+			batch.status !== "flushing" ||
+			(flushStartedAt !== undefined && flushStartedAt !== batch.flushStartedAt)
+		) {
+			console.warn("[recordFlushResult] Ignoring result of a flush that was recovered", {
+				batchId: batch.batchId,
+			});
+			return;
+		}
 
-			// Check for stranded items (added after flushStartedAt)
-			const remainingItems = await ctx.db
-				.query("batchItems")
-				.withIndex("by_batchDocId", (q) => q.eq("batchDocId", batchDocId))
-				.collect();
-			const remainingCount = remainingItems.reduce((sum, item) => sum + item.itemCount, 0);
-
-			if (remainingCount > 0) {
-				// Don't complete - keep accumulating for stranded items
-				await ctx.db.patch(batchDocId, {
-					status: "accumulating",
-					flushStartedAt: undefined,
-					lastUpdatedAt: Date.now(),
-				});
+		const now = Date.now();
+		const cutoffTime = flushStartedAt ?? batch.flushStartedAt ?? now;
 
-				// Schedule another maybeFlush if at threshold
-				const threshold = batch.config.immediateFlushThreshold ?? batch.config.maxBatchSize;
-				if (threshold !== undefined && remainingCount >= threshold) {
-					await ctx.scheduler.runAfter(0, internal.lib.maybeFlush, { batchDocId });
-				} else if (batch.config.flushIntervalMs > 0) {
-					// Re-schedule interval timer
-					const scheduledFlushId = await ctx.scheduler.runAfter(
-						batch.config.flushIntervalMs,
-						internal.lib.maybeFlush,
-						{ batchDocId, force: true }
-					);
-					await ctx.db.patch(batchDocId, { scheduledFlushId });
-				}
-			} else {
-				// No stranded items - mark completed
-				await ctx.db.patch(batchDocId, {
-					status: "completed",
-					flushStartedAt: undefined,
-					lastUpdatedAt: Date.now(),
-				});
+		// Flushes run regularly, so they also clean up expired idempotency keys
+		await purgeExpiredIdempotencyKeys(ctx, now);
 
-				// Clean up old completed batches for the same base ID
-				// Keep only the most recent completed batch to reduce clutter
-				const completedBatches = await ctx.db
-					.query("batches")
-					.withIndex("by_baseBatchId_status", (q) =>
-						q.eq("baseBatchId", batch.baseBatchId).eq("status", "completed")
-					)
-					.collect();
+		if (success) {
+			// Delivered chunks were already removed by acknowledgeFlushChunk
+			const flushHistoryId = await ctx.db.insert("flushHistory", {
+				batchId: batch.baseBatchId, // Store client's original ID, not internal sequence
+				itemCount,
+				flushedAt: now,
+				durationMs,
+				success,
+				succeededCount: itemCount,
+				failedCount: 0,
+				chunkCount,
+				byteSize,
+				duplicatesDropped,
+				windowStart: batch.windowStart,
+				windowEnd: batch.windowEnd,
+				partitionKey: batch.partitionKey,
+				result,
+				resultOmitted,
+			});
 
-				// Sort by sequence number descending and delete all but the most recent
-				const sortedCompleted = completedBatches.sort((a, b) => b.sequence - a.sequence);
-				for (let i = 1; i < sortedCompleted.length; i++) {
-					// Also delete batchItems for old completed batches
-					const oldBatchItems = await ctx.db
-						.query("batchItems")
-						.withIndex("by_batchDocId", (q) => q.eq("batchDocId", sortedCompleted[i]._id))
-						.collect();
-					for (const item of oldBatchItems) {
-						await ctx.db.delete(item._id);
-					}
-					await ctx.db.delete(sortedCompleted[i]._id);
-				}
-			}
-		} else {
-			// Failure case - revert to accumulating
-			let scheduledFlushId: typeof batch.scheduledFlushId = undefined;
-			if (batch.config.flushIntervalMs > 0 && batch.config.processBatchHandle) {
-				scheduledFlushId = await ctx.scheduler.runAfter(
-					batch.config.flushIntervalMs,
-					internal.lib.maybeFlush,
-					{ batchDocId, force: true }
-				);
-			}
+			await recordCircuitBreakerResult(ctx, batch, true, now);
+			await runFlushCallback(ctx, batch, {
+				flushHistoryId,
+				batchId: batch.baseBatchId,
+				itemCount,
+				durationMs,
+			});
+			await finishFlush(ctx, batch, { flushAt: rateLimitedUntil });
+			return;
+		}
 
+		// Partial failure - drop the delivered items of the failed chunk so only the failed
+		// ones are retried (or dead-lettered)
+		const chunkSize = failedChunkSize ?? itemCount;
+
+		// processBatch or the merge query can't be resolved (e.g. it was renamed): retrying
+		// can't succeed, so the batch keeps its items in "handle_invalid" until rebindHandle.
+		// Unless the batch was rebound while this flush ran.
+		if (invalidHandle !== undefined && getConfigHandles(batch.config).includes(invalidHandle)) {
+			console.warn("[recordFlushResult] Function handle can't be resolved", {
+				batchId: batch.batchId,
+				invalidHandle,
+				errorMessage,
+			});
+			const flushHistoryId = await ctx.db.insert("flushHistory", {
+				batchId: batch.baseBatchId,
+				itemCount,
+				flushedAt: now,
+				durationMs,
+				success,
+				errorMessage,
+				succeededCount: itemCount - chunkSize,
+				failedCount: chunkSize,
+				chunkCount,
+				byteSize,
+				windowStart: batch.windowStart,
+				windowEnd: batch.windowEnd,
+				partitionKey: batch.partitionKey,
+				handleInvalid: true,
+			});
+			await runFlushCallback(ctx, batch, {
+				flushHistoryId,
+				batchId: batch.baseBatchId,
+				itemCount,
+				durationMs,
+				errorMessage: errorMessage ?? "Flush failed",
+				failedCount: chunkSize,
+				deadLettered: false,
+			});
 			await ctx.db.patch(batchDocId, {
-				status: "accumulating",
+				status: "handle_invalid",
+				invalidHandle,
+				failedChunk: countChunkAttempt(batch, failedChunk),
 				flushStartedAt: undefined,
-				scheduledFlushId,
+				flushLeaseExpiresAt: undefined,
+				lastUpdatedAt: now,
+			});
+			await wakeQueuedFlushes(ctx);
+			return;
+		}
+
+		const failedCount = failedIndexes?.length ?? chunkSize;
+		if (failedIndexes && failedIndexes.length > 0 && !deliveredItemsRemoved) {
+			await removeDeliveredItems(ctx, batchDocId, cutoffTime, chunkSize, failedIndexes);
+		}
+
+		// Failure case - record the attempt and either retry or dead-letter the items
+		const flushAttempts = (batch.flushAttempts ?? 0) + 1;
+		const failedAttempts = [
+			...(batch.failedAttempts ?? []),
+			{ attemptedAt: now, durationMs, itemCount, errorMessage },
+		].slice(-MAX_ATTEMPT_HISTORY);
+		const { maxFlushAttempts } = batch.config;
+		const exhausted = maxFlushAttempts !== undefined && flushAttempts >= maxFlushAttempts;
+
+		const flushHistoryId = await ctx.db.insert("flushHistory", {
+			batchId: batch.baseBatchId,
+			itemCount,
+			flushedAt: now,
+			durationMs,
+			success,
+			errorMessage,
+			deadLettered: exhausted ? true : undefined,
+			succeededCount: itemCount - failedCount,
+			failedCount,
+			chunkCount,
+			byteSize,
+			duplicatesDropped,
+			windowStart: batch.windowStart,
+			windowEnd: batch.windowEnd,
+			partitionKey: batch.partitionKey,
+			result,
+			resultOmitted,
+		});
+		await recordCircuitBreakerResult(ctx, batch, false, now);
+		await runFlushCallback(ctx, batch, {
+			flushHistoryId,
+			batchId: batch.baseBatchId,
+			itemCount,
+			durationMs,
+			errorMessage: errorMessage ?? "Flush failed",
+			failedCount,
+			deadLettered: exhausted,
+		});
+		await ctx.db.patch(batchDocId, { failedChunk: countChunkAttempt(batch, failedChunk) });
+
+		await retryOrDeadLetter(ctx, batch, {
+			flushAttempts,
+			failedAttempts,
+			exhausted,
+			cutoffTime,
+			failedCount,
+			errorMessage,
+			now,
+		});
+	},
+});
+
+/**
+ * recoverStuckFlushes - Watchdog run by the component's cron job (see crons.ts).
+ *
+ * If executeFlush crashes or times out before recordFlushResult runs, its batch would stay
+ * "flushing" forever. Flushes whose lease (flushLeaseMs) has expired are recorded as
+ * abandoned failed attempts, and their batches are retried or dead-lettered like any
+ * failed flush. Delivered chunks were already removed, so only the rest is retried.
+ * Batches that started flushing before leases were recorded have none; their lease is
+ * taken to be the default one from flushStartedAt.
+ */
+export const recoverStuckFlushes = internalMutation({
+	args: {},
+	handler: async (ctx) => {
+		const now = Date.now();
+		const expired = await ctx.db
+			.query("batches")
+			.withIndex("by_status_flushLeaseExpiresAt", (q) =>
+				q.eq("status", "flushing").gt("flushLeaseExpiresAt", 0).lt("flushLeaseExpiresAt", now)
+			)
+			.take(RECOVERY_BATCH_SIZE);
+		if (expired.length < RECOVERY_BATCH_SIZE) {
+			const withoutLease = await ctx.db
+				.query("batches")
+				.withIndex("by_status_flushLeaseExpiresAt", (q) =>
+					q.eq("status", "flushing").eq("flushLeaseExpiresAt", undefined)
+				)
+				.filter((q) => q.lt(q.field("flushStartedAt"), now - DEFAULT_FLUSH_LEASE_MS))
+				.take(RECOVERY_BATCH_SIZE - expired.length);
+			expired.push(...withoutLease);
+		}
+
+		for (const batch of expired) {
+			const cutoffTime = batch.flushStartedAt ?? now;
+			const durationMs = now - cutoffTime;
+			const leaseMs =
+				batch.flushLeaseExpiresAt !== undefined ? getFlushLeaseMs(batch.config) : DEFAULT_FLUSH_LEASE_MS;
+			const errorMessage = `Flush abandoned: no result within ${leaseMs}ms`;
+			const slices = await getFlushItemSlices(ctx.db, batch._id, cutoffTime);
+			const itemCount = slices.reduce((sum, slice) => sum + slice.count, 0);
+			// The chunk that was being delivered is the batch's first undelivered one
+			const abandonedChunk = batch.config.includeMetadata
+				? getFailedChunk(await collectFlushChunk(ctx.db, batch))
+				: undefined;
+			console.warn("[recoverStuckFlushes] Recovering stuck flush", {
+				batchId: batch.batchId,
+				flushStartedAt: batch.flushStartedAt,
+				itemCount,
+			});
+
+			const flushAttempts = (batch.flushAttempts ?? 0) + 1;
+			const failedAttempts = [
+				...(batch.failedAttempts ?? []),
+				{ attemptedAt: now, durationMs, itemCount, errorMessage },
+			].slice(-MAX_ATTEMPT_HISTORY);
+			const { maxFlushAttempts } = batch.config;
+			const exhausted = maxFlushAttempts !== undefined && flushAttempts >= maxFlushAttempts;
+
+			const flushHistoryId = await ctx.db.insert("flushHistory", {
+				batchId: batch.baseBatchId,
+				itemCount,
+				flushedAt: now,
+				durationMs,
+				success: false,
+				errorMessage,
+				deadLettered: exhausted ? true : undefined,
+				succeededCount: 0,
+				failedCount: itemCount,
+				abandoned: true,
+				windowStart: batch.windowStart,
+				windowEnd: batch.windowEnd,
+				partitionKey: batch.partitionKey,
+			});
+			await recordCircuitBreakerResult(ctx, batch, false, now);
+			await runFlushCallback(ctx, batch, {
+				flushHistoryId,
+				batchId: batch.baseBatchId,
+				itemCount,
+				durationMs,
+				errorMessage,
+				failedCount: itemCount,
+				deadLettered: exhausted,
+			});
+			await ctx.db.patch(batch._id, { failedChunk: countChunkAttempt(batch, abandonedChunk) });
+
+			await retryOrDeadLetter(ctx, batch, {
+				flushAttempts,
+				failedAttempts,
+				exhausted,
+				cutoffTime,
+				failedCount: itemCount,
+				errorMessage,
+				now,
 			});
 		}
+
+		return { recovered: expired.length };
 	},
 });
 
@@ -741,6 +3785,7 @@ export const startIteratorJob = mutation({
 			delayBetweenBatchesMs: v.optional(v.number()),
 			getNextBatchHandle: v.string(),
 			processBatchHandle: v.string(),
+			processBatchType: v.optional(processBatchTypeValidator),
 			onCompleteHandle: v.optional(v.string()),
 			maxRetries: v.optional(v.number()),
 		}),
@@ -767,6 +3812,7 @@ export const startIteratorJob = mutation({
 				delayBetweenBatchesMs: config.delayBetweenBatchesMs ?? 100,
 				getNextBatchHandle: config.getNextBatchHandle,
 				processBatchHandle: config.processBatchHandle,
+				processBatchType: config.processBatchType,
 				onCompleteHandle: config.onCompleteHandle,
 				maxRetries: config.maxRetries,
 			},
@@ -894,7 +3940,8 @@ export const listIteratorJobs = query({
 				v.literal("running"),
 				v.literal("paused"),
 				v.literal("completed"),
-				v.literal("failed")
+				v.literal("failed"),
+				v.literal("handle_invalid")
 			)
 		),
 		limit: v.optional(v.number()),
@@ -988,10 +4035,12 @@ export const processNextBatch = internalAction({
 				{ cursor: string | undefined; batchSize: number }
 			>;
 
-			const batchResult = await ctx.runQuery(getNextBatchHandle, {
-				cursor: job.cursor ?? undefined,
-				batchSize: job.config.batchSize,
-			});
+			const batchResult = await callHandle(getNextBatchHandle, () =>
+				ctx.runQuery(getNextBatchHandle, {
+					cursor: job.cursor ?? undefined,
+					batchSize: job.config.batchSize,
+				})
+			);
 
 			const { items, cursor: nextCursor, done } = batchResult as {
 				items: unknown[];
@@ -999,43 +4048,66 @@ export const processNextBatch = internalAction({
 				done: boolean;
 			};
 
-			if (items.length > 0) {
-				const processBatchHandle = job.config.processBatchHandle as FunctionHandle<
-					"action",
-					{ items: unknown[] }
-				>;
+			const newProcessedCount = job.processedCount + items.length;
 
-				await ctx.runAction(processBatchHandle, { items });
-			}
+			if (job.config.processBatchType === "mutation") {
+				// processBatch and the cursor advance commit together
+				const { applied, invalidHandle }: { applied: boolean; invalidHandle?: string } =
+					await ctx.runMutation(internal.lib.processIteratorBatch, {
+						jobDocId,
+						cursor: job.cursor,
+						items,
+						nextCursor,
+						done,
+					});
+				if (invalidHandle !== undefined) {
+					// The mutation processBatch can't be resolved; processIteratorBatch parked the job
+					return { processed: false, reason: "Handle invalid" };
+				}
+				if (!applied) {
+					return { processed: false, reason: "Job not running or cursor changed" };
+				}
+			} else {
+				if (items.length > 0) {
+					const processBatchHandle = job.config.processBatchHandle as FunctionHandle<
+						"action",
+						{ items: unknown[] }
+					>;
 
-			const newProcessedCount = job.processedCount + items.length;
+					await callHandle(processBatchHandle, () => ctx.runAction(processBatchHandle, { items }));
+				}
 
-			if (done) {
-				await ctx.runMutation(internal.lib.markJobCompleted, {
-					jobDocId,
-					processedCount: newProcessedCount,
-				});
+				if (done) {
+					await ctx.runMutation(internal.lib.markJobCompleted, {
+						jobDocId,
+						processedCount: newProcessedCount,
+					});
+				} else {
+					await ctx.runMutation(internal.lib.updateJobProgress, {
+						jobDocId,
+						cursor: nextCursor,
+						processedCount: newProcessedCount,
+					});
+				}
+			}
 
+			if (done) {
 				if (job.config.onCompleteHandle) {
 					const onCompleteHandle = job.config.onCompleteHandle as FunctionHandle<
 						"mutation",
 						{ jobId: string; processedCount: number }
 					>;
-					await ctx.runMutation(onCompleteHandle, {
-						jobId: job.jobId,
-						processedCount: newProcessedCount,
-					});
+					await callHandle(onCompleteHandle, () =>
+						ctx.runMutation(onCompleteHandle, {
+							jobId: job.jobId,
+							processedCount: newProcessedCount,
+						})
+					);
 				}
 
 				return { processed: true, done: true, processedCount: newProcessedCount };
 			}
 
-			await ctx.runMutation(internal.lib.updateJobProgress, {
-				jobDocId,
-				cursor: nextCursor,
-				processedCount: newProcessedCount,
-			});
-
 			await ctx.scheduler.runAfter(
 				job.config.delayBetweenBatchesMs,
 				internal.lib.processNextBatch,
@@ -1045,6 +4117,17 @@ export const processNextBatch = internalAction({
 			return { processed: true, done: false, processedCount: newProcessedCount };
 		} catch (error) {
 			const errorMessage = error instanceof Error ? error.message : String(error);
+
+			// A handle that can't be resolved fails every retry; the job waits for rebindHandle
+			if (error instanceof InvalidHandleError) {
+				await ctx.runMutation(internal.lib.markJobHandleInvalid, {
+					jobDocId,
+					handle: error.handle,
+					errorMessage,
+				});
+				return { processed: false, reason: "Handle invalid", error: errorMessage };
+			}
+
 			const newRetryCount = job.retryCount + 1;
 
 			if (newRetryCount >= maxRetries) {
@@ -1070,6 +4153,60 @@ export const processNextBatch = internalAction({
 	},
 });
 
+/**
+ * processIteratorBatch - Runs a mutation processBatch (processBatchType "mutation") and
+ * advances the job's cursor in the same transaction, so each batch of items is processed
+ * exactly once. If processBatch throws, nothing is committed and the batch is retried.
+ * Returns applied: false if the job stopped running or its cursor moved in the meantime.
+ */
+export const processIteratorBatch = internalMutation({
+	args: {
+		jobDocId: v.id("iteratorJobs"),
+		cursor: v.optional(v.string()), // The cursor the items were read from
+		items: v.array(v.any()),
+		nextCursor: v.optional(v.string()),
+		done: v.boolean(),
+	},
+	handler: async (ctx, { jobDocId, cursor, items, nextCursor, done }) => {
+		const job = await ctx.db.get(jobDocId);
+		if (!job || job.status !== "running" || job.cursor !== cursor) {
+			return { applied: false };
+		}
+
+		if (items.length > 0) {
+			const processBatchHandle = job.config.processBatchHandle as FunctionHandle<
+				"mutation",
+				{ items: unknown[] }
+			>;
+			try {
+				await callHandle(processBatchHandle, () => ctx.runMutation(processBatchHandle, { items }));
+			} catch (error) {
+				if (!(error instanceof InvalidHandleError)) {
+					throw error;
+				}
+				// Nothing was processed; the job waits for rebindHandle
+				await ctx.db.patch(jobDocId, {
+					status: "handle_invalid",
+					invalidHandle: error.handle,
+					errorMessage: error.message,
+					lastRunAt: Date.now(),
+				});
+				return { applied: false, invalidHandle: error.handle };
+			}
+		}
+
+		const processedCount = job.processedCount + items.length;
+		const now = Date.now();
+		await ctx.db.patch(
+			jobDocId,
+			done
+				? { status: "completed", processedCount, lastRunAt: now }
+				: { cursor: nextCursor, processedCount, lastRunAt: now, retryCount: 0 }
+		);
+		return { applied: true };
+	},
+});
+
 export const updateJobProgress = internalMutation({
 	args: {
 		jobDocId: v.id("iteratorJobs"),
@@ -1116,6 +4253,27 @@ export const markJobFailed = internalMutation({
 	},
 });
 
+export const markJobHandleInvalid = internalMutation({
+	args: {
+		jobDocId: v.id("iteratorJobs"),
+		handle: v.string(), // The handle that couldn't be resolved
+		errorMessage: v.string(),
+	},
+	handler: async (ctx, { jobDocId, handle, errorMessage }) => {
+		// A finished job (e.g. whose onComplete failed) keeps its status
+		const job = await ctx.db.get(jobDocId);
+		if (job?.status !== "running") {
+			return;
+		}
+		await ctx.db.patch(jobDocId, {
+			status: "handle_invalid",
+			invalidHandle: handle,
+			errorMessage,
+			lastRunAt: Date.now(),
+		});
+	},
+});
+
 export const incrementRetryCount = internalMutation({
 	args: {
 		jobDocId: v.id("iteratorJobs"),
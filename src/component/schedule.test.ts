@@ -0,0 +1,70 @@
+import { describe, expect, test } from "vitest";
+import {
+	getScheduleWindow,
+	nextScheduledTime,
+	parseCronSchedule,
+	previousScheduledTime,
+} from "./schedule";
+
+const utc = (iso: string) => new Date(`${iso}Z`).getTime();
+
+describe("parseCronSchedule", () => {
+	test("parses lists, ranges and steps", () => {
+		const schedule = parseCronSchedule("0,30 9-17/4 * * 1-5");
+		expect([...schedule.minutes]).toEqual([0, 30]);
+		expect([...schedule.hours]).toEqual([9, 13, 17]);
+		expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+	});
+
+	test("treats day-of-week 7 as Sunday", () => {
+		expect([...parseCronSchedule("0 0 * * 7").daysOfWeek]).toEqual([0]);
+	});
+
+	test("rejects invalid expressions", () => {
+		expect(() => parseCronSchedule("0 * * *")).toThrow("expected 5 fields");
+		expect(() => parseCronSchedule("60 * * * *")).toThrow("minute");
+		expect(() => parseCronSchedule("0 0 * * mon")).toThrow("day-of-week");
+	});
+});
+
+describe("scheduled times", () => {
+	test("hourly on the hour", () => {
+		const schedule = parseCronSchedule("0 * * * *");
+		expect(nextScheduledTime(schedule, utc("2026-03-01T10:15:00"))).toBe(utc("2026-03-01T11:00:00"));
+		expect(nextScheduledTime(schedule, utc("2026-03-01T11:00:00"))).toBe(utc("2026-03-01T12:00:00"));
+		expect(previousScheduledTime(schedule, utc("2026-03-01T11:00:00"))).toBe(
+			utc("2026-03-01T11:00:00"),
+		);
+	});
+
+	test("daily at midnight across a year boundary", () => {
+		const window = getScheduleWindow("0 0 * * *", utc("2026-12-31T18:30:00"));
+		expect(window).toEqual({
+			windowStart: utc("2026-12-31T00:00:00"),
+			windowEnd: utc("2027-01-01T00:00:00"),
+		});
+	});
+
+	test("monthly on the first", () => {
+		const window = getScheduleWindow("0 0 1 * *", utc("2026-03-15T08:00:00"));
+		expect(window).toEqual({
+			windowStart: utc("2026-03-01T00:00:00"),
+			windowEnd: utc("2026-04-01T00:00:00"),
+		});
+	});
+
+	test("matches either day field when both are restricted", () => {
+		// The 13th of the month or any Friday (2026-03-06 is a Friday)
+		const schedule = parseCronSchedule("0 0 13 * 5");
+		expect(nextScheduledTime(schedule, utc("2026-03-01T00:00:00"))).toBe(utc("2026-03-06T00:00:00"));
+	});
+
+	test("treats day fields starting with * as unrestricted", () => {
+		// Odd days of the month that are Fridays: 2026-03-13 (2026-03-06 is even)
+		const stepped = parseCronSchedule("0 0 */2 * 5");
+		expect(nextScheduledTime(stepped, utc("2026-03-01T00:00:00"))).toBe(utc("2026-03-13T00:00:00"));
+		// A full range still restricts the field: any day of the month matches
+		const ranged = parseCronSchedule("0 0 1-31 * 5");
+		expect(nextScheduledTime(ranged, utc("2026-03-01T00:00:00"))).toBe(utc("2026-03-02T00:00:00"));
+	});
+});
@@ -0,0 +1,147 @@
+/**
+ * Cron-style flush schedules (flushSchedule in BatchConfig).
+ *
+ * Schedules use the standard 5-field syntax, evaluated in UTC:
+ *
+ *   minute (0-59)  hour (0-23)  day-of-month (1-31)  month (1-12)  day-of-week (0-7, 0 = 7 = Sunday)
+ *
+ * Each field accepts `*`, numbers, ranges (`1-5`), steps (`*\/15`, `0-30/10`) and lists
+ * of those (`0,30`). As in cron, when both day-of-month and day-of-week are restricted,
+ * a day matches if either does. Also as in (Vixie) cron, a day field counts as restricted
+ * unless it starts with `*`: `*\/2` isn't restricted, `1-31` is.
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+// Upper bound on how far ahead/back a matching time is searched for
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * MINUTE_MS;
+
+export type CronSchedule = {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	restrictsDayOfMonth: boolean;
+	restrictsDayOfWeek: boolean;
+};
+
+export type ScheduleWindow = { windowStart: number; windowEnd: number };
+
+function parseField(field: string, min: number, max: number, name: string): Set<number> {
+	const values = new Set<number>();
+	for (const part of field.split(",")) {
+		const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+		if (!match) {
+			throw new Error(`Invalid ${name} field "${field}"`);
+		}
+		const [, range, from, to, step] = match;
+		const start = range === "*" ? min : Number(from);
+		const end = range === "*" ? max : to !== undefined ? Number(to) : step ? max : start;
+		const increment = step ? Number(step) : 1;
+		if (start < min || end > max || start > end || increment < 1) {
+			throw new Error(`Invalid ${name} field "${field}" (allowed: ${min}-${max})`);
+		}
+		for (let value = start; value <= end; value += increment) {
+			values.add(value);
+		}
+	}
+	return values;
+}
+
+/**
+ * Parses a 5-field cron expression. Throws an Error describing the problem if the
+ * expression is invalid.
+ */
+export function parseCronSchedule(expression: string): CronSchedule {
+	const fields = expression.trim().split(/\s+/);
+	if (fields.length !== 5) {
+		throw new Error(`Invalid schedule "${expression}": expected 5 fields, got ${fields.length}`);
+	}
+	const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+	try {
+		const daysOfWeek = parseField(dayOfWeek, 0, 7, "day-of-week");
+		if (daysOfWeek.delete(7)) {
+			daysOfWeek.add(0);
+		}
+		return {
+			minutes: parseField(minute, 0, 59, "minute"),
+			hours: parseField(hour, 0, 23, "hour"),
+			daysOfMonth: parseField(dayOfMonth, 1, 31, "day-of-month"),
+			months: parseField(month, 1, 12, "month"),
+			daysOfWeek,
+			restrictsDayOfMonth: !dayOfMonth.startsWith("*"),
+			restrictsDayOfWeek: !dayOfWeek.startsWith("*"),
+		};
+	} catch (error) {
+		throw new Error(`Invalid schedule "${expression}": ${(error as Error).message}`);
+	}
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+	const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+	const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+	if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+		return dayOfMonth || dayOfWeek;
+	}
+	return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Returns the first time matching the schedule strictly after `after`, skipping whole
+ * months, days and hours that can't match.
+ */
+export function nextScheduledTime(schedule: CronSchedule, after: number): number {
+	const date = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+	while (date.getTime() - after <= MAX_SEARCH_MS) {
+		if (!schedule.months.has(date.getUTCMonth() + 1)) {
+			date.setUTCMonth(date.getUTCMonth() + 1, 1);
+			date.setUTCHours(0, 0, 0, 0);
+		} else if (!matchesDay(schedule, date)) {
+			date.setUTCDate(date.getUTCDate() + 1);
+			date.setUTCHours(0, 0, 0, 0);
+		} else if (!schedule.hours.has(date.getUTCHours())) {
+			date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+		} else if (!schedule.minutes.has(date.getUTCMinutes())) {
+			date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+		} else {
+			return date.getTime();
+		}
+	}
+	throw new Error("Schedule has no upcoming matching time");
+}
+
+/**
+ * Returns the last time matching the schedule at or before `atOrBefore`.
+ */
+export function previousScheduledTime(schedule: CronSchedule, atOrBefore: number): number {
+	const date = new Date(Math.floor(atOrBefore / MINUTE_MS) * MINUTE_MS);
+	while (atOrBefore - date.getTime() <= MAX_SEARCH_MS) {
+		if (!schedule.months.has(date.getUTCMonth() + 1)) {
+			// Last minute of the previous month
+			date.setUTCDate(1);
+			date.setUTCHours(0, -1, 0, 0);
+		} else if (!matchesDay(schedule, date)) {
+			date.setUTCHours(0, -1, 0, 0);
+		} else if (!schedule.hours.has(date.getUTCHours())) {
+			date.setUTCMinutes(-1, 0, 0);
+		} else if (!schedule.minutes.has(date.getUTCMinutes())) {
+			date.setUTCMinutes(date.getUTCMinutes() - 1, 0, 0);
+		} else {
+			return date.getTime();
+		}
+	}
+	throw new Error("Schedule has no past matching time");
+}
+
+/**
+ * Returns the schedule window containing `time`: from the last scheduled time at or
+ * before it up to (excluding) the next one.
+ */
+export function getScheduleWindow(expression: string, time: number): ScheduleWindow {
+	const schedule = parseCronSchedule(expression);
+	return {
+		windowStart: previousScheduledTime(schedule, time),
+		windowEnd: nextScheduledTime(schedule, time),
+	};
+}
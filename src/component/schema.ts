@@ -1,6 +1,106 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+export const retryPolicyValidator = v.object({
+	initialDelayMs: v.number(),
+	multiplier: v.optional(v.number()),
+	maxDelayMs: v.optional(v.number()),
+	jitter: v.optional(v.number()), // Fraction (0-1) of each delay that is randomized
+});
+
+export const dedupeByValidator = v.object({
+	key: v.string(), // Item field (dotted path) that identifies duplicates
+	keep: v.optional(v.union(v.literal("first"), v.literal("last"))), // Default: "last"
+});
+
+export const reducerValidator = v.union(
+	v.literal("sum"),
+	v.literal("max"),
+	v.literal("min"),
+	v.literal("first"),
+	v.literal("last"),
+	v.literal("count")
+);
+
+export const reduceValidator = v.object({
+	groupBy: v.optional(v.string()), // Item field (dotted path) to reduce per value of
+	fields: v.optional(v.record(v.string(), reducerValidator)), // Built-in reducer per field
+	mergeHandle: v.optional(v.string()), // Custom merge query (takes precedence over fields)
+});
+
+export const eventTimeWindowValidator = v.object({
+	timestampField: v.string(), // Item field (dotted path) holding the event time (ms)
+	windowMs: v.number(), // Tumbling window size
+	allowedLatenessMs: v.optional(v.number()), // How long a window accepts items after it ends
+});
+
+export const rateLimitValidator = v.object({
+	requestsPerSecond: v.optional(v.number()), // processBatch calls
+	itemsPerSecond: v.optional(v.number()), // Items delivered to processBatch
+});
+
+export const circuitBreakerValidator = v.object({
+	failureThreshold: v.number(), // Consecutive failed flushes that open the breaker
+	cooldownMs: v.number(), // How long flushes are suspended before a probe flush
+});
+
+export const processBatchTypeValidator = v.union(v.literal("action"), v.literal("mutation"));
+
+export const batchConfigValidator = v.object({
+	immediateFlushThreshold: v.optional(v.number()),
+	/** @deprecated Use immediateFlushThreshold instead */
+	maxBatchSize: v.optional(v.number()),
+	flushIntervalMs: v.number(),
+	processBatchHandle: v.string(),
+	processBatchType: v.optional(processBatchTypeValidator), // Default: "action"
+	maxFlushAttempts: v.optional(v.number()),
+	retryPolicy: v.optional(retryPolicyValidator),
+	itemKey: v.optional(v.string()), // Item field used to name failed items in ProcessBatchResult
+	maxItemsPerFlush: v.optional(v.number()), // Deliver flushes in chunks of at most this many items
+	maxBatchBytes: v.optional(v.number()), // Flush (and chunk) by serialized size of the items
+	cumulativeFlushThreshold: v.optional(v.number()), // Flush once this many items are pending
+	idempotencyWindowMs: v.optional(v.number()), // How long idempotency keys are remembered
+	dedupeItemsByKey: v.optional(v.boolean()), // Drop items whose itemKey was seen in the window
+	dedupeBy: v.optional(dedupeByValidator), // Collapse items sharing a key at flush time
+	reduce: v.optional(reduceValidator), // Deliver reduced values instead of the raw items
+	debounceMs: v.optional(v.number()), // Flush after this long without new items
+	maxWaitMs: v.optional(v.number()), // Debounce cap: longest an item waits for a quiet period
+	flushSchedule: v.optional(v.string()), // 5-field cron (UTC); one batch per schedule window
+	eventTimeWindow: v.optional(eventTimeWindowValidator), // One batch per event-time window
+	partitionBy: v.optional(v.string()), // Item field (dotted path); one batch per value
+	maxConcurrentFlushes: v.optional(v.number()), // Per processBatchHandle
+	rateLimit: v.optional(rateLimitValidator), // Token bucket per processBatchHandle
+	circuitBreaker: v.optional(circuitBreakerValidator), // Per processBatchHandle
+	ordered: v.optional(v.boolean()), // Deliver sequences strictly in order, one at a time
+	flushLeaseMs: v.optional(v.number()), // How long a flush may run before it is recovered
+	includeMetadata: v.optional(v.boolean()), // Pass FlushMetadata to processBatch
+	onFlushCompleteHandle: v.optional(v.string()), // Mutation called when a flush succeeds
+	onFlushFailedHandle: v.optional(v.string()), // Mutation called when a flush fails
+	configVersion: v.optional(v.number()), // A higher version is applied to existing batches
+});
+
+// Config changes that updateBatchConfig accepts. Batches are bound to their schedule window,
+// event-time window and partition, so those can't be changed for existing batches. The
+// configVersion belongs to the client config.
+export const batchConfigUpdateValidator = batchConfigValidator
+	.omit("flushSchedule", "eventTimeWindow", "partitionBy", "configVersion")
+	.partial();
+
+export const flushAttemptValidator = v.object({
+	attemptedAt: v.number(),
+	durationMs: v.number(),
+	itemCount: v.number(),
+	errorMessage: v.optional(v.string()),
+});
+
+// A flush chunk whose delivery failed (with includeMetadata): its flushId and the range of
+// its items, so retries deliver the same items
+export const failedChunkValidator = v.object({
+	flushId: v.string(),
+	lastItemAt: v.number(), // createdAt of its last batchItems document
+	itemCount: v.number(),
+});
+
 export default defineSchema({
 	batches: defineTable({
 		batchId: v.string(), // Full ID with sequence: "base::0"
@@ -9,31 +109,114 @@ export default defineSchema({
 		// itemCount is computed on-demand from batchItems table
 		createdAt: v.number(),
 		lastUpdatedAt: v.number(),
-		status: v.union(v.literal("accumulating"), v.literal("flushing"), v.literal("completed")),
-		config: v.object({
-			immediateFlushThreshold: v.optional(v.number()),
-			/** @deprecated Use immediateFlushThreshold instead */
-			maxBatchSize: v.optional(v.number()),
-			flushIntervalMs: v.number(),
-			processBatchHandle: v.string(),
-		}),
+		status: v.union(
+			v.literal("accumulating"),
+			v.literal("flushing"),
+			v.literal("completed"),
+			v.literal("handle_invalid") // A config handle couldn't be resolved (see rebindHandle)
+		),
+		config: batchConfigValidator,
 		scheduledFlushId: v.optional(v.id("_scheduled_functions")),
 		flushStartedAt: v.optional(v.number()),
+		flushLeaseExpiresAt: v.optional(v.number()), // Flushing batches are recovered after this
+		flushAttempts: v.optional(v.number()), // Consecutive failed flushes of this batch
+		failedAttempts: v.optional(v.array(flushAttemptValidator)),
+		nextRetryAt: v.optional(v.number()), // When the retry of a failed flush is scheduled
+		acknowledgedChunks: v.optional(v.number()), // Chunks delivered and removed so far
+		// Last chunk that failed, with its failed attempts (includeMetadata)
+		failedChunk: v.optional(v.object({ ...failedChunkValidator.fields, attempts: v.number() })),
+		// Window of the batch (with flushSchedule or eventTimeWindow)
+		windowStart: v.optional(v.number()),
+		windowEnd: v.optional(v.number()),
+		partitionKey: v.optional(v.string()), // Value of the partitionBy field of its items
+		flushQueuedAt: v.optional(v.number()), // Waiting for a free flush slot since
+		circuitBlockedAt: v.optional(v.number()), // Waiting for the circuit breaker since
+		orderBlockedAt: v.optional(v.number()), // Waiting for older sequences since (ordered)
+		invalidHandle: v.optional(v.string()), // The handle that couldn't be resolved (handle_invalid)
 	})
 		.index("by_batchId", ["batchId"])
 		.index("by_baseBatchId_status", ["baseBatchId", "status"])
+		.index("by_baseBatchId_partitionKey_status", ["baseBatchId", "partitionKey", "status"])
 		.index("by_baseBatchId_sequence", ["baseBatchId", "sequence"])
-		.index("by_status", ["status"]),
+		.index("by_status", ["status"])
+		.index("by_status_processBatchHandle", ["status", "config.processBatchHandle"])
+		.index("by_status_flushLeaseExpiresAt", ["status", "flushLeaseExpiresAt"])
+		.index("by_flushQueuedAt", ["flushQueuedAt"])
+		.index("by_processBatchHandle_circuitBlockedAt", [
+			"config.processBatchHandle",
+			"circuitBlockedAt",
+		]),
 
 	batchItems: defineTable({
 		batchDocId: v.id("batches"),
 		items: v.array(v.any()),
 		itemCount: v.number(),
+		byteSize: v.optional(v.number()), // Serialized size of items (JSON, UTF-8)
 		createdAt: v.number(),
 	})
 		.index("by_batchDocId", ["batchDocId"])
 		.index("by_batchDocId_createdAt", ["batchDocId", "createdAt"]),
 
+	// Per base batch ID: the client config with the highest configVersion, and the changes
+	// made with updateBatchConfig since (see resolveBatchConfig)
+	batchConfigs: defineTable({
+		baseBatchId: v.string(),
+		clientConfig: v.optional(batchConfigValidator), // Unset until a versioned config arrives
+		updates: v.optional(batchConfigUpdateValidator),
+		unsetFields: v.optional(v.array(v.string())), // Fields removed by updateBatchConfig
+	}).index("by_baseBatchId", ["baseBatchId"]),
+
+	// Base batch IDs whose flushes are paused (see pauseBatch)
+	pausedBatches: defineTable({
+		baseBatchId: v.string(),
+		pausedAt: v.number(),
+	}).index("by_baseBatchId", ["baseBatchId"]),
+
+	// Component-wide settings (a single document, see configure)
+	globalConfig: defineTable({
+		maxConcurrentFlushes: v.optional(v.number()),
+	}),
+
+	// Token buckets for rateLimit, one per processBatchHandle. Tokens are refilled lazily
+	// from updatedAt whenever a bucket is read.
+	rateLimits: defineTable({
+		processBatchHandle: v.string(),
+		requestTokens: v.number(),
+		itemTokens: v.number(), // May go negative after a chunk larger than the bucket
+		updatedAt: v.number(),
+	}).index("by_processBatchHandle", ["processBatchHandle"]),
+
+	// Circuit breakers, one per processBatchHandle (see circuitBreaker in the batch config)
+	circuitBreakers: defineTable({
+		processBatchHandle: v.string(),
+		state: v.union(v.literal("closed"), v.literal("open"), v.literal("half_open")),
+		consecutiveFailures: v.number(),
+		openedAt: v.optional(v.number()),
+		reopensAt: v.optional(v.number()), // End of the cool-down (half-opens after it)
+		probeBatchDocId: v.optional(v.id("batches")), // The single flush allowed while half-open
+		updatedAt: v.number(),
+	}).index("by_processBatchHandle", ["processBatchHandle"]),
+
+	// Sharded running totals of items/bytes added to a batch. addItems increments one
+	// random shard so concurrent calls rarely touch the same document.
+	batchCounters: defineTable({
+		batchDocId: v.id("batches"),
+		shard: v.number(),
+		itemCount: v.number(), // Cumulative, never decremented
+		byteSize: v.number(),
+	}).index("by_batchDocId_shard", ["batchDocId", "shard"]),
+
+	// Idempotency keys seen by addItems: "request:<key>" for whole calls (with the original
+	// result) and "item:<key>" for individual items
+	idempotencyKeys: defineTable({
+		baseBatchId: v.string(),
+		key: v.string(),
+		result: v.optional(v.any()),
+		expiresAt: v.number(),
+	})
+		.index("by_baseBatchId_key", ["baseBatchId", "key"])
+		.index("by_expiresAt", ["expiresAt"]),
+
 	iteratorJobs: defineTable({
 		jobId: v.string(),
 		cursor: v.optional(v.string()),
@@ -43,18 +226,21 @@ export default defineSchema({
 			v.literal("running"),
 			v.literal("paused"),
 			v.literal("completed"),
-			v.literal("failed")
+			v.literal("failed"),
+			v.literal("handle_invalid") // A config handle couldn't be resolved (see rebindHandle)
 		),
 		config: v.object({
 			batchSize: v.number(),
 			delayBetweenBatchesMs: v.number(),
 			getNextBatchHandle: v.string(),
 			processBatchHandle: v.string(),
+			processBatchType: v.optional(processBatchTypeValidator),
 			onCompleteHandle: v.optional(v.string()),
 			maxRetries: v.optional(v.number()),
 		}),
 		retryCount: v.number(),
 		errorMessage: v.optional(v.string()),
+		invalidHandle: v.optional(v.string()), // The handle that couldn't be resolved (handle_invalid)
 		createdAt: v.number(),
 		lastRunAt: v.optional(v.number()),
 	})
@@ -68,5 +254,44 @@ export default defineSchema({
 		durationMs: v.number(),
 		success: v.boolean(),
 		errorMessage: v.optional(v.string()),
+		deadLettered: v.optional(v.boolean()),
+		succeededCount: v.optional(v.number()),
+		failedCount: v.optional(v.number()),
+		chunkCount: v.optional(v.number()),
+		byteSize: v.optional(v.number()),
+		duplicatesDropped: v.optional(v.number()), // Items collapsed by dedupeBy (not delivered)
+		windowStart: v.optional(v.number()),
+		windowEnd: v.optional(v.number()),
+		partitionKey: v.optional(v.string()),
+		abandoned: v.optional(v.boolean()), // The flush's lease expired without a result
+		result: v.optional(v.any()), // Return value of the last processBatch call (size-capped)
+		resultOmitted: v.optional(v.boolean()), // The return value was left out: too large to store
+		handleInvalid: v.optional(v.boolean()), // processBatch or the merge query couldn't be resolved
 	}).index("by_batchId", ["batchId"]),
+
+	deadLetters: defineTable({
+		batchId: v.string(), // Full ID of the exhausted batch: "base::0"
+		baseBatchId: v.string(),
+		sequence: v.number(),
+		itemCount: v.number(),
+		attempts: v.number(),
+		lastErrorMessage: v.optional(v.string()),
+		failedAttempts: v.array(flushAttemptValidator),
+		config: batchConfigValidator,
+		createdAt: v.number(), // When the original batch was created
+		deadLetteredAt: v.number(),
+		windowStart: v.optional(v.number()), // Window of the original batch
+		windowEnd: v.optional(v.number()),
+		partitionKey: v.optional(v.string()), // Partition of the original batch
+	})
+		.index("by_baseBatchId", ["baseBatchId", "deadLetteredAt"])
+		.index("by_deadLetteredAt", ["deadLetteredAt"]),
+
+	// Items are stored separately (like batchItems) to stay within document size limits
+	deadLetterItems: defineTable({
+		deadLetterId: v.id("deadLetters"),
+		items: v.array(v.any()),
+		itemCount: v.number(),
+		createdAt: v.number(),
+	}).index("by_deadLetterId_createdAt", ["deadLetterId", "createdAt"]),
 });